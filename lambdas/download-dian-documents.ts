@@ -0,0 +1,66 @@
+import { handle } from '../src/application/download-dian-documents';
+import type { DianDocumentDownloadPayload } from '../src/domain/dian/interfaces';
+import { DIAN_ERROR_STATUS } from '../src/domain/dian/errors';
+
+export const handler = async (event: any) => {
+    try {
+        console.log('Event:', JSON.stringify({
+            ...event,
+            base64CertificateP12: event?.base64CertificateP12 ? '***' : undefined,
+            certificatePassword: event?.certificatePassword ? '***' : undefined,
+            cookies: Array.isArray(event?.cookies) ? `${event.cookies.length} cookies` : undefined
+        }, null, 2));
+
+        const payload: DianDocumentDownloadPayload = {
+            cufes: event.cufes,
+            cookies: Array.isArray(event.cookies) ? event.cookies : undefined,
+            storage: event.storage,
+            base64CertificateP12: event.base64CertificateP12 ? String(event.base64CertificateP12) : undefined,
+            certificatePassword: event.certificatePassword ? String(event.certificatePassword) : undefined,
+            identificationType: event.identificationType ? String(event.identificationType) : undefined,
+            nitRepresentanteLegal: event.nitRepresentanteLegal ? String(event.nitRepresentanteLegal) : undefined,
+            headless: normalizeBoolean(event.headless, true)
+        };
+
+        const result = await handle(payload);
+
+        return {
+            statusCode: result.success ? 200 : DIAN_ERROR_STATUS[result.errorCode ?? 'UNKNOWN'],
+            body: JSON.stringify(result)
+        };
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error('Lambda error:', errorMessage);
+
+        return {
+            statusCode: 500,
+            body: JSON.stringify({
+                success: false,
+                error: errorMessage,
+                errorCode: 'UNKNOWN'
+            })
+        };
+    }
+};
+
+function normalizeBoolean(value: unknown, defaultValue: boolean): boolean {
+    if (value === undefined || value === null || value === '') {
+        return defaultValue;
+    }
+
+    if (typeof value === 'boolean') {
+        return value;
+    }
+
+    if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (['true', '1', 'yes', 'si'].includes(normalized)) {
+            return true;
+        }
+        if (['false', '0', 'no'].includes(normalized)) {
+            return false;
+        }
+    }
+
+    return defaultValue;
+}
@@ -1,22 +1,25 @@
 import { handle } from '../src/application/generate-dian-token-email';
 import type { DianTokenEmailPayload } from '../src/domain/dian/interfaces';
+import { DIAN_ERROR_STATUS } from '../src/domain/dian/errors';
 
 export const handler = async (event: any) => {
     try {
-        console.log('Event:', JSON.stringify(event, null, 2));
+        console.log('Event:', JSON.stringify({ ...event, mailbox: event?.mailbox ? { ...event.mailbox, password: '***' } : undefined }, null, 2));
 
         const payload: DianTokenEmailPayload = {
             identificationType: String(event.identificationType ?? ''),
             userCode: String(event.userCode ?? ''),
             companyCode: String(event.companyCode ?? ''),
             origin: event.origin ? String(event.origin) : undefined,
-            headless: normalizeBoolean(event.headless, true)
+            headless: normalizeBoolean(event.headless, true),
+            mailbox: event.mailbox && typeof event.mailbox === 'object' ? event.mailbox : undefined,
+            mailboxRef: event.mailboxRef ? String(event.mailboxRef) : undefined
         };
 
         const result = await handle(payload);
 
         return {
-            statusCode: result.success ? 200 : 400,
+            statusCode: result.success ? 200 : DIAN_ERROR_STATUS[result.errorCode ?? 'UNKNOWN'],
             body: JSON.stringify(result)
         };
     } catch (error: unknown) {
@@ -27,7 +30,8 @@ export const handler = async (event: any) => {
             statusCode: 500,
             body: JSON.stringify({
                 success: false,
-                error: errorMessage
+                error: errorMessage,
+                errorCode: 'UNKNOWN'
             })
         };
     }
@@ -1,5 +1,6 @@
 import { handle } from '../src/application/get-dian-cookie-by-certificate';
 import type { Payload } from '../src/domain/dian/interfaces';
+import { DIAN_ERROR_STATUS } from '../src/domain/dian/errors';
 
 export const handler = async (event: Payload) => {
     try {
@@ -8,7 +9,7 @@ export const handler = async (event: Payload) => {
         const result = await handle(event);
         
         return {
-            statusCode: 200,
+            statusCode: result.success ? 200 : DIAN_ERROR_STATUS[result.errorCode ?? 'UNKNOWN'],
             body: JSON.stringify(result)
         };
     } catch (error: unknown) {
@@ -19,7 +20,8 @@ export const handler = async (event: Payload) => {
             statusCode: 500,
             body: JSON.stringify({
                 success: false,
-                error: errorMessage
+                error: errorMessage,
+                errorCode: 'UNKNOWN'
             })
         };
     }
@@ -0,0 +1,64 @@
+import { handle } from '../src/application/get-dian-documents';
+import type { DianDocumentsPayload } from '../src/domain/dian/interfaces';
+import { DIAN_ERROR_STATUS } from '../src/domain/dian/errors';
+
+export const handler = async (event: any) => {
+    try {
+        console.log('Event:', JSON.stringify({ ...event, base64CertificateP12: event?.base64CertificateP12 ? '***' : undefined, certificatePassword: event?.certificatePassword ? '***' : undefined }, null, 2));
+
+        const payload: DianDocumentsPayload = {
+            base64CertificateP12: String(event.base64CertificateP12 ?? ''),
+            certificatePassword: String(event.certificatePassword ?? ''),
+            identificationType: String(event.identificationType ?? ''),
+            nitRepresentanteLegal: String(event.nitRepresentanteLegal ?? ''),
+            headless: normalizeBoolean(event.headless, true),
+            startDate: String(event.startDate ?? ''),
+            endDate: String(event.endDate ?? ''),
+            direction: event.direction,
+            format: event.format,
+            // 0, "abc" o 2.5 llegan como número para que handle los rechace con VALIDATION_ERROR
+            maxPages: event.maxPages !== undefined && event.maxPages !== null && event.maxPages !== '' ? Number(event.maxPages) : undefined
+        };
+
+        const result = await handle(payload);
+
+        return {
+            statusCode: result.success ? 200 : DIAN_ERROR_STATUS[result.errorCode ?? 'UNKNOWN'],
+            body: JSON.stringify(result)
+        };
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error('Lambda error:', errorMessage);
+
+        return {
+            statusCode: 500,
+            body: JSON.stringify({
+                success: false,
+                error: errorMessage,
+                errorCode: 'UNKNOWN'
+            })
+        };
+    }
+};
+
+function normalizeBoolean(value: unknown, defaultValue: boolean): boolean {
+    if (value === undefined || value === null || value === '') {
+        return defaultValue;
+    }
+
+    if (typeof value === 'boolean') {
+        return value;
+    }
+
+    if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (['true', '1', 'yes', 'si'].includes(normalized)) {
+            return true;
+        }
+        if (['false', '0', 'no'].includes(normalized)) {
+            return false;
+        }
+    }
+
+    return defaultValue;
+}
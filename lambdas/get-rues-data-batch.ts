@@ -0,0 +1,41 @@
+import { handle } from '../src/application/get-rues-data-batch';
+import { parseRecordTypes } from '../src/application/get-rues-data';
+import type { RuesBatchPayload } from '../src/domain/rues/interfaces';
+import { lambdaDeadline, RemainingTimeContext } from '../src/infrastructure/utils/deadline';
+
+export const handler = async (event: any, context?: RemainingTimeContext) => {
+    try {
+        console.log('Event:', JSON.stringify(event, null, 2));
+
+        // Normalizar el payload para asegurar tipos correctos
+        const payload: RuesBatchPayload = {
+            identifications: Array.isArray(event.identifications) ? event.identifications.map(String) : [],
+            concurrency: event.concurrency !== undefined ? Number(event.concurrency) : undefined,
+            headless: event.headless === true || event.headless === 'true' || event.headless === undefined ? true : false,
+            mode: event.mode === 'matches' || event.mode === 'detail' ? event.mode : undefined,
+            recordTypes: parseRecordTypes(event.recordTypes)
+        };
+
+        const result = await handle(payload, lambdaDeadline(context));
+
+        return {
+            statusCode: 200,
+            body: JSON.stringify(result)
+        };
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const errorCode = (error as any)?.code;
+
+        console.error('Lambda error:', errorMessage);
+        console.error('Error code:', errorCode);
+
+        return {
+            statusCode: errorCode === 'VALIDATION_ERROR' ? 400 : 500,
+            body: JSON.stringify({
+                success: false,
+                error: errorMessage,
+                errorCode: errorCode || 'UNKNOWN_ERROR'
+            })
+        };
+    }
+};
@@ -1,19 +1,27 @@
-import { handle } from '../src/application/get-rues-data';
+import { handle, parseRecordTypes } from '../src/application/get-rues-data';
 import type { RuesPayload } from '../src/domain/rues/interfaces';
+import { lambdaDeadline, RemainingTimeContext } from '../src/infrastructure/utils/deadline';
 
-export const handler = async (event: any) => {
+export const handler = async (event: any, context?: RemainingTimeContext) => {
     try {
         console.log('Event:', JSON.stringify(event, null, 2));
         
         // Normalizar el payload para asegurar tipos correctos
         const payload: RuesPayload = {
-            identificationNumber: String(event.identificationNumber),
-            headless: event.headless === true || event.headless === 'true' || event.headless === undefined ? true : false
+            identificationNumber: event.identificationNumber ? String(event.identificationNumber) : undefined,
+            companyName: event.companyName ? String(event.companyName) : undefined,
+            headless: event.headless === true || event.headless === 'true' || event.headless === undefined ? true : false,
+            mode: event.mode === 'matches' || event.mode === 'detail' ? event.mode : undefined,
+            camaraComercio: event.camaraComercio ? String(event.camaraComercio) : undefined,
+            matricula: event.matricula ? String(event.matricula) : undefined,
+            recordTypes: parseRecordTypes(event.recordTypes),
+            parallel: event.parallel === 'first' || event.parallel === 'all' ? event.parallel : undefined,
+            forceRefresh: event.forceRefresh === true || event.forceRefresh === 'true'
         };
         
         console.log('Normalized payload:', JSON.stringify(payload, null, 2));
         
-        const result = await handle(payload);
+        const result = await handle(payload, lambdaDeadline(context));
         
         return {
             statusCode: 200,
@@ -29,7 +37,9 @@ export const handler = async (event: any) => {
         // Determinar el statusCode basado en el tipo de error
         let statusCode = 500; // Error del servidor por defecto
         
-        if (errorCode === 'NOT_FOUND') {
+        if (errorCode === 'VALIDATION_ERROR') {
+            statusCode = 400; // Payload incompleto
+        } else if (errorCode === 'NOT_FOUND') {
             statusCode = 404; // Documento no encontrado
         } else if (errorCode === 'API_ERROR') {
             statusCode = 503; // Servicio no disponible (API de RUES caída)
@@ -45,4 +55,3 @@ export const handler = async (event: any) => {
         };
     }
 };
-
@@ -0,0 +1,32 @@
+import { handle } from '../src/application/inspect-dian-certificate';
+import type { CertificateInspectionPayload } from '../src/domain/dian/interfaces';
+import { DIAN_ERROR_STATUS } from '../src/domain/dian/errors';
+
+export const handler = async (event: any) => {
+    try {
+        const payload: CertificateInspectionPayload = {
+            base64CertificateP12: String(event.base64CertificateP12 ?? ''),
+            certificatePassword: String(event.certificatePassword ?? ''),
+            nitRepresentanteLegal: event.nitRepresentanteLegal ? String(event.nitRepresentanteLegal) : undefined
+        };
+
+        const result = await handle(payload);
+
+        return {
+            statusCode: result.success ? 200 : DIAN_ERROR_STATUS[result.errorCode ?? 'UNKNOWN'],
+            body: JSON.stringify(result)
+        };
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error('Lambda error:', errorMessage);
+
+        return {
+            statusCode: 500,
+            body: JSON.stringify({
+                success: false,
+                error: errorMessage,
+                errorCode: 'UNKNOWN'
+            })
+        };
+    }
+};
@@ -0,0 +1,60 @@
+import { handle } from '../src/application/redeem-dian-token';
+import type { DianTokenAuthPayload } from '../src/domain/dian/interfaces';
+import { DIAN_ERROR_STATUS } from '../src/domain/dian/errors';
+
+export const handler = async (event: any) => {
+    try {
+        console.log('Event:', JSON.stringify({ ...event, token: event?.token ? '***' : undefined, tokenUrl: event?.tokenUrl ? '***' : undefined }, null, 2));
+
+        const payload: DianTokenAuthPayload = {
+            tokenUrl: event.tokenUrl ? String(event.tokenUrl) : undefined,
+            token: event.token ? String(event.token) : undefined,
+            identificationType: event.identificationType ? String(event.identificationType) : undefined,
+            userCode: event.userCode ? String(event.userCode) : undefined,
+            companyCode: event.companyCode ? String(event.companyCode) : undefined,
+            origin: event.origin ? String(event.origin) : undefined,
+            headless: normalizeBoolean(event.headless, true)
+        };
+
+        const result = await handle(payload);
+
+        return {
+            statusCode: result.success ? 200 : DIAN_ERROR_STATUS[result.errorCode ?? 'UNKNOWN'],
+            body: JSON.stringify(result)
+        };
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error('Lambda error:', errorMessage);
+
+        return {
+            statusCode: 500,
+            body: JSON.stringify({
+                success: false,
+                error: errorMessage,
+                errorCode: 'UNKNOWN'
+            })
+        };
+    }
+};
+
+function normalizeBoolean(value: unknown, defaultValue: boolean): boolean {
+    if (value === undefined || value === null || value === '') {
+        return defaultValue;
+    }
+
+    if (typeof value === 'boolean') {
+        return value;
+    }
+
+    if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (['true', '1', 'yes', 'si'].includes(normalized)) {
+            return true;
+        }
+        if (['false', '0', 'no'].includes(normalized)) {
+            return false;
+        }
+    }
+
+    return defaultValue;
+}
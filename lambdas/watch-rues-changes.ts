@@ -0,0 +1,22 @@
+import { handle } from '../src/application/watch-rues-changes';
+import type { RuesWatchlistPayload } from '../src/domain/rues/interfaces';
+import { lambdaDeadline, RemainingTimeContext } from '../src/infrastructure/utils/deadline';
+
+export const handler = async (event: any, context?: RemainingTimeContext) => {
+    console.log('Event:', JSON.stringify(event, null, 2));
+
+    // Las ejecuciones programadas (EventBridge) no traen identificaciones: se usa la watchlist guardada
+    const payload: RuesWatchlistPayload = {
+        identifications: Array.isArray(event?.identifications) ? event.identifications.map(String) : undefined,
+        concurrency: event?.concurrency !== undefined ? Number(event.concurrency) : undefined,
+        headless: event?.headless === false || event?.headless === 'false' ? false : true,
+        dryRun: event?.dryRun === true || event?.dryRun === 'true'
+    };
+
+    const result = await handle(payload, lambdaDeadline(context));
+
+    return {
+        statusCode: result.success ? 200 : 500,
+        body: JSON.stringify(result)
+    };
+};
@@ -0,0 +1,47 @@
+#!/usr/bin/env node
+
+/**
+ * Consulta el saldo de los proveedores de captcha configurados y el gasto acumulado
+ * Uso:
+ *   npm run build
+ *   ANTICAPTCHA_API_KEY=... CAPTCHA_2_API_KEY=... node scripts/check-captcha-balance-local.js
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+async function main() {
+    console.log('='.repeat(80));
+    console.log('🧪 PRUEBA LOCAL - Saldo de proveedores de captcha');
+    console.log('='.repeat(80));
+
+    const registryPath = path.join(__dirname, '../dist/src/infrastructure/captcha/registry.js');
+    const storePath = path.join(__dirname, '../dist/src/infrastructure/captcha/usage-store.js');
+
+    if (!fs.existsSync(registryPath)) {
+        console.error('❌ No se encontró el código compilado. Ejecuta primero: npm run build');
+        process.exit(1);
+    }
+
+    const { getCaptchaBalances } = require(registryPath);
+    const { getCaptchaUsageStore } = require(storePath);
+
+    const balances = await getCaptchaBalances();
+
+    if (balances.length === 0) {
+        console.log('\n⚠️  No hay proveedores con API key configurada');
+    }
+
+    balances.forEach(({ provider, balance, error }) => {
+        console.log(error ? `\n❌ ${provider}: ${error}` : `\n💰 ${provider}: US$ ${balance.toFixed(2)}`);
+    });
+
+    const spend = await getCaptchaUsageStore().getSpend();
+    console.log(`\n📊 Gasto ${spend.day}: US$ ${spend.dailyUsd.toFixed(4)} | ${spend.month}: US$ ${spend.monthlyUsd.toFixed(4)}`);
+    console.log(`   (acumulado: ${process.env.CAPTCHA_USAGE_STORE || 'memory'})`);
+}
+
+main().catch(error => {
+    console.error('❌ Error:', error.message);
+    process.exit(1);
+});
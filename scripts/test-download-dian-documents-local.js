@@ -0,0 +1,72 @@
+#!/usr/bin/env node
+
+/**
+ * Script para probar la lambda download-dian-documents localmente
+ * Uso:
+ *   npm run build
+ *   node scripts/test-download-dian-documents-local.js [directorio-destino]
+ *
+ * Si se indica un directorio, los ZIP se guardan ahí en lugar de devolverse en base64.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+async function main() {
+    console.log('='.repeat(80));
+    console.log('🧪 PRUEBA LOCAL - Lambda download-dian-documents');
+    console.log('='.repeat(80));
+
+    const eventPath = path.join(__dirname, '../events/dian-documents-download.json');
+
+    if (!fs.existsSync(eventPath)) {
+        console.error('❌ No se encontró el archivo events/dian-documents-download.json');
+        process.exit(1);
+    }
+
+    const event = JSON.parse(fs.readFileSync(eventPath, 'utf-8'));
+
+    const directory = process.argv[2];
+    if (directory) {
+        process.env.DIAN_DOCUMENTS_DIR = path.resolve(directory);
+        event.storage = { type: 'local' };
+    }
+
+    console.log(`📦 ${event.cufes.length} CUFE(s) | Destino: ${event.storage?.type ?? 'inline'}\n`);
+
+    const handlerPath = path.join(__dirname, '../dist/lambdas/download-dian-documents.js');
+
+    if (!fs.existsSync(handlerPath)) {
+        console.log('⚠️  Handler no compilado. Ejecutando build...\n');
+        const { execSync } = require('child_process');
+        execSync('npm run build', { stdio: 'inherit', cwd: path.join(__dirname, '..') });
+    }
+
+    const { handler } = require(handlerPath);
+
+    try {
+        const result = await handler(event);
+        const body = JSON.parse(result.body);
+
+        console.log(`\n📥 statusCode: ${result.statusCode}`);
+
+        if (!body.success) {
+            console.log(`❌ ${body.errorCode}: ${body.error}`);
+            return;
+        }
+
+        console.log(`✅ ${body.downloaded}/${body.total} descargados`);
+        for (const document of body.documents) {
+            const detail = document.success
+                ? `${document.fileName} (${document.size} bytes)${document.location ? ` -> ${document.location}` : ''}`
+                : `${document.errorCode}: ${document.error}`;
+            console.log(`   ${document.success ? '✓' : '✗'} ${document.cufe.substring(0, 16)}... ${detail}`);
+        }
+    } catch (error) {
+        console.error('\n❌ Error ejecutando la lambda:');
+        console.error(error);
+        process.exit(1);
+    }
+}
+
+main();
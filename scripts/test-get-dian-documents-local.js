@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+/**
+ * Script para probar la lambda get-dian-documents localmente
+ * Uso:
+ *   npm run build
+ *   node scripts/test-get-dian-documents-local.js [received|issued] [YYYY-MM-DD] [YYYY-MM-DD]
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+async function main() {
+    console.log('='.repeat(80));
+    console.log('🧪 PRUEBA LOCAL - Lambda get-dian-documents');
+    console.log('='.repeat(80));
+
+    // Reutiliza el payload de dian-auth (certificado, contraseña y NIT)
+    const eventPath = path.join(__dirname, '../events/dian-auth.json');
+
+    if (!fs.existsSync(eventPath)) {
+        console.error('❌ No se encontró el archivo events/dian-auth.json');
+        process.exit(1);
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const firstDayOfMonth = `${today.slice(0, 8)}01`;
+    const [direction = 'received', startDate = firstDayOfMonth, endDate = today] = process.argv.slice(2);
+
+    const event = {
+        ...JSON.parse(fs.readFileSync(eventPath, 'utf-8')),
+        direction,
+        startDate,
+        endDate,
+        format: 'csv'
+    };
+
+    console.log(`📦 Dirección: ${direction} | Rango: ${startDate} a ${endDate}\n`);
+
+    const handlerPath = path.join(__dirname, '../dist/lambdas/get-dian-documents.js');
+
+    if (!fs.existsSync(handlerPath)) {
+        console.log('⚠️  Handler no compilado. Ejecutando build...\n');
+        const { execSync } = require('child_process');
+        execSync('npm run build', { stdio: 'inherit', cwd: path.join(__dirname, '..') });
+    }
+
+    const { handler } = require(handlerPath);
+
+    try {
+        const result = await handler(event);
+        const body = JSON.parse(result.body);
+
+        console.log(`\n📥 statusCode: ${result.statusCode}`);
+
+        if (body.success) {
+            console.log(`✅ ${body.total} documentos`);
+            console.log(JSON.stringify(body.documents.slice(0, 5), null, 2));
+            console.log('\n--- CSV ---');
+            console.log(body.csv);
+        } else {
+            console.log(`❌ ${body.errorCode}: ${body.error}`);
+        }
+    } catch (error) {
+        console.error('\n❌ Error ejecutando la lambda:');
+        console.error(error);
+        process.exit(1);
+    }
+}
+
+main();
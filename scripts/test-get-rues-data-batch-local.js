@@ -0,0 +1,53 @@
+/**
+ * Script para probar localmente la lambda de consulta RUES por lote
+ *
+ * Uso: node scripts/test-get-rues-data-batch-local.js [identificación ...]
+ * Sin argumentos usa events/rues-batch-query.json
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { handler } = require('../dist/lambdas/get-rues-data-batch');
+
+async function main() {
+    const eventPath = path.join(__dirname, '../events/rues-batch-query.json');
+    const event = JSON.parse(fs.readFileSync(eventPath, 'utf-8'));
+
+    if (process.argv.length > 2) {
+        event.identifications = process.argv.slice(2);
+    }
+
+    console.log('='.repeat(80));
+    console.log('🧪 PRUEBA LOCAL - Lambda de consulta RUES por lote');
+    console.log('='.repeat(80));
+    console.log(`\n📋 ${event.identifications.length} identificaciones | Concurrencia: ${event.concurrency ?? 'por defecto'}\n`);
+
+    const startTime = Date.now();
+
+    try {
+        const result = await handler(event);
+        const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+        const body = JSON.parse(result.body);
+
+        console.log('\n' + '-'.repeat(80));
+        console.log(`⏱️  Duración: ${duration} segundos | statusCode: ${result.statusCode}`);
+        console.log('-'.repeat(80));
+
+        if (!body.success) {
+            console.log(`\n❌ ${body.errorCode}: ${body.error}`);
+            return;
+        }
+
+        console.log(`\n✅ ${body.found} encontrados, ${body.notFound} no encontrados, ${body.failed} con error\n`);
+        body.results.forEach(item => {
+            const detail = item.status === 'FOUND' ? item.data?.nombre ?? `${item.coincidencias?.length ?? 0} coincidencias` : item.error;
+            console.log(`   ${item.identificationNumber.padEnd(12)} ${item.status.padEnd(14)} ${(item.durationMs / 1000).toFixed(1)}s  ${detail}`);
+        });
+    } catch (error) {
+        console.log('\n❌ Error al ejecutar la lambda:');
+        console.error(error);
+        process.exit(1);
+    }
+}
+
+main();
@@ -1,29 +1,33 @@
 /**
  * Script para probar localmente la lambda de consulta RUES
  * 
- * Uso: node scripts/test-get-rues-data-local.js <número-identificación>
+ * Uso: node scripts/test-get-rues-data-local.js <número-identificación | "razón social">
  */
 
 const { handler } = require('../dist/lambdas/get-rues-data');
 
 async function main() {
-    const identificationNumber = process.argv[2];
+    const searchTerm = process.argv.slice(2).join(' ').trim();
 
-    if (!identificationNumber) {
-        console.error('❌ Error: Debes proporcionar un número de identificación');
-        console.log('\nUso: node scripts/test-get-rues-data-local.js <número-identificación>');
-        console.log('Ejemplo: node scripts/test-get-rues-data-local.js 900123456\n');
+    if (!searchTerm) {
+        console.error('❌ Error: Debes proporcionar un número de identificación o una razón social');
+        console.log('\nUso: node scripts/test-get-rues-data-local.js <número-identificación | "razón social">');
+        console.log('Ejemplo: node scripts/test-get-rues-data-local.js 900123456');
+        console.log('Ejemplo: node scripts/test-get-rues-data-local.js "Alpina Productos Alimenticios"\n');
         process.exit(1);
     }
 
+    // Solo dígitos, puntos y guiones se consideran identificación
+    const isIdentification = /^[\d.\-]+$/.test(searchTerm);
+
     console.log('='.repeat(80));
     console.log('🧪 PRUEBA LOCAL - Lambda de consulta RUES');
     console.log('='.repeat(80));
-    console.log(`\n📋 Número de identificación: ${identificationNumber}`);
+    console.log(`\n📋 ${isIdentification ? 'Número de identificación' : 'Razón social'}: ${searchTerm}`);
     console.log(`⏰ Fecha: ${new Date().toLocaleString('es-CO')}\n`);
 
     const event = {
-        identificationNumber,
+        ...(isIdentification ? { identificationNumber: searchTerm } : { companyName: searchTerm }),
         headless: false // false para ver el navegador
     };
 
@@ -46,7 +50,14 @@ async function main() {
 
         if (result.statusCode === 200) {
             const body = JSON.parse(result.body);
-            if (body.success) {
+            if (body.success && !body.data) {
+                console.log('\n✅ ¡Consulta exitosa!');
+                console.log(`\n📊 Candidatos (${body.coincidencias.length}):`);
+                body.coincidencias.forEach(candidate => {
+                    const score = candidate.similitud !== undefined ? `[${candidate.similitud.toFixed(2)}] ` : '';
+                    console.log(`   - ${score}${candidate.nombre} | NIT ${candidate.identificacion || 'N/A'} | ${candidate.camara_de_comercio || 'N/A'} | Matrícula ${candidate.numero_de_matricula || 'N/A'} | ${candidate.estado || 'N/A'}`);
+                });
+            } else if (body.success) {
                 console.log('\n✅ ¡Consulta exitosa!');
                 console.log('\n📊 Datos obtenidos:');
                 console.log(`   - Nombre: ${body.data.nombre}`);
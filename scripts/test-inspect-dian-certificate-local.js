@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+
+/**
+ * Script para probar la lambda inspect-dian-certificate localmente
+ * Uso:
+ *   npm run build
+ *   node scripts/test-inspect-dian-certificate-local.js
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+async function main() {
+    console.log('='.repeat(80));
+    console.log('🧪 PRUEBA LOCAL - Lambda inspect-dian-certificate');
+    console.log('='.repeat(80));
+
+    // Reutiliza el payload de dian-auth (certificado, contraseña y NIT)
+    const eventPath = path.join(__dirname, '../events/dian-auth.json');
+
+    if (!fs.existsSync(eventPath)) {
+        console.error('❌ No se encontró el archivo events/dian-auth.json');
+        process.exit(1);
+    }
+
+    const event = JSON.parse(fs.readFileSync(eventPath, 'utf-8'));
+
+    const handlerPath = path.join(__dirname, '../dist/lambdas/inspect-dian-certificate.js');
+
+    if (!fs.existsSync(handlerPath)) {
+        console.log('⚠️  Handler no compilado. Ejecutando build...\n');
+        const { execSync } = require('child_process');
+        execSync('npm run build', { stdio: 'inherit', cwd: path.join(__dirname, '..') });
+    }
+
+    const { handler } = require(handlerPath);
+
+    try {
+        const result = await handler(event);
+        const body = JSON.parse(result.body);
+
+        console.log(`\n📥 statusCode: ${result.statusCode}`);
+        console.log(JSON.stringify(body, null, 2));
+
+        if (body.valid) {
+            console.log('\n✅ Certificado utilizable para el login');
+        } else {
+            console.log(`\n❌ Certificado no utilizable (${body.errorCode}): ${body.error}`);
+        }
+    } catch (error) {
+        console.error('\n❌ Error ejecutando la lambda:');
+        console.error(error);
+        process.exit(1);
+    }
+}
+
+main();
@@ -0,0 +1,55 @@
+/**
+ * Script para probar localmente la vigilancia de cambios RUES
+ *
+ * Uso: node scripts/test-watch-rues-changes-local.js [identificación ...]
+ * Sin argumentos usa events/watch-rues-changes.json. Por defecto los snapshots quedan en
+ * output/rues-watchlist y los eventos se escriben en el log (RUES_CHANGE_SINK=log).
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { handler } = require('../dist/lambdas/watch-rues-changes');
+
+async function main() {
+    const eventPath = path.join(__dirname, '../events/watch-rues-changes.json');
+    const event = JSON.parse(fs.readFileSync(eventPath, 'utf-8'));
+
+    if (process.argv.length > 2) {
+        event.identifications = process.argv.slice(2);
+    }
+
+    console.log('='.repeat(80));
+    console.log('🧪 PRUEBA LOCAL - Vigilancia de cambios RUES');
+    console.log('='.repeat(80));
+    console.log(`\n📋 ${event.identifications.length} identificaciones | Almacén: ${process.env.RUES_WATCHLIST_STORE || 'local'} | Sink: ${process.env.RUES_CHANGE_SINK || 'log'}\n`);
+
+    const startTime = Date.now();
+
+    try {
+        const result = await handler(event);
+        const duration = ((Date.now() - startTime) / 1000).toFixed(2);
+        const body = JSON.parse(result.body);
+
+        console.log('\n' + '-'.repeat(80));
+        console.log(`⏱️  Duración: ${duration} segundos | statusCode: ${result.statusCode}`);
+        console.log('-'.repeat(80));
+
+        if (!body.success) {
+            console.log(`\n❌ ${body.error}`);
+        }
+
+        console.log(`\n✅ ${body.changed} con cambios, ${body.eventsPublished} evento(s) publicados\n`);
+        body.items.forEach(item => {
+            const detail = item.status === 'CHANGED'
+                ? item.changes.map(change => change.field).join(', ')
+                : item.error ?? '';
+            console.log(`   ${item.identificationNumber.padEnd(12)} ${item.status.padEnd(10)} ${detail}`);
+        });
+    } catch (error) {
+        console.log('\n❌ Error al ejecutar la lambda:');
+        console.error(error);
+        process.exit(1);
+    }
+}
+
+main();
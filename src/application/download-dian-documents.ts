@@ -0,0 +1,250 @@
+import { request, APIRequestContext } from 'playwright-core';
+import * as path from 'path';
+import type {
+    Payload,
+    DianSessionCookie,
+    DianDocumentDownload,
+    DianDocumentDownloadPayload,
+    DianDocumentDownloadResult
+} from '../domain/dian/interfaces';
+import { createDianError, getDianErrorCode } from '../domain/dian/errors';
+import { createDocumentStorage, DocumentStorage } from '../infrastructure/storage/document-storage';
+import { openCertificateSession, closeCertificateSession, CertificateSession } from './get-dian-cookie-by-certificate';
+
+const CONFIG = {
+    urls: {
+        downloadZip: 'https://catalogo-vpfe.dian.gov.co/Document/DownloadZipFiles'
+    },
+    // CUFE/CUDE: SHA-384 (96 hex); los documentos antiguos usan SHA-1 (40 hex)
+    cufePattern: /^[a-f0-9]{40,96}$/i,
+    maxCufes: 100,
+    timeouts: {
+        download: 60000
+    }
+} as const;
+
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b]);
+
+export async function handle(payload: DianDocumentDownloadPayload): Promise<DianDocumentDownloadResult> {
+    let session: CertificateSession | null = null;
+    let cookieContext: APIRequestContext | null = null;
+
+    try {
+        const cufes = normalizeCufes(payload.cufes);
+
+        let storage: DocumentStorage | null;
+        try {
+            storage = createDocumentStorage(payload.storage);
+        } catch (error: unknown) {
+            throw createDianError(error instanceof Error ? error.message : String(error), 'VALIDATION_ERROR');
+        }
+
+        console.log('=== Descarga de documentos DIAN por CUFE ===');
+        console.log(`📄 ${cufes.length} CUFE(s) | Destino: ${payload.storage?.type ?? 'inline'}`);
+
+        let requestContext: APIRequestContext;
+
+        if (payload.cookies?.length) {
+            console.log(`🍪 Usando ${payload.cookies.length} cookies recibidas`);
+            cookieContext = await request.newContext({
+                storageState: { cookies: toStorageCookies(payload.cookies), origins: [] }
+            });
+            requestContext = cookieContext;
+        } else {
+            if (!payload.base64CertificateP12 || !payload.certificatePassword) {
+                throw createDianError('Debe enviar cookies o base64CertificateP12 y certificatePassword', 'VALIDATION_ERROR');
+            }
+
+            session = await openCertificateSession(payload as Payload);
+            if (!session.loginSuccess) {
+                throw createDianError('No fue posible iniciar sesión en la DIAN con el certificado.');
+            }
+            requestContext = session.context.request;
+        }
+
+        const documents: DianDocumentDownload[] = [];
+        let sessionError: Error | null = null;
+
+        for (const cufe of cufes) {
+            // Si la sesión ya no es válida, las siguientes descargas fallarían igual
+            if (sessionError) {
+                documents.push({ cufe, success: false, error: sessionError.message, errorCode: getDianErrorCode(sessionError) });
+                continue;
+            }
+
+            try {
+                const document = await downloadDocument(requestContext, cufe, storage);
+                console.log(`✅ ${cufe.substring(0, 16)}... (${document.size} bytes)`);
+                documents.push(document);
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                const errorCode = getDianErrorCode(error);
+                console.warn(`⚠️  ${cufe.substring(0, 16)}...: ${errorCode} ${errorMessage}`);
+
+                documents.push({ cufe, success: false, error: errorMessage, errorCode });
+
+                // Solo la respuesta de la DIAN marca la sesión como vencida; un error del destino
+                // (p. ej. credenciales de S3) o un mensaje de red que diga "invalid" no la invalida
+                if (isSessionExpired(error)) {
+                    sessionError = error as Error;
+                }
+            }
+        }
+
+        const downloaded = documents.filter(document => document.success).length;
+
+        return {
+            success: true,
+            total: documents.length,
+            downloaded,
+            failed: documents.length - downloaded,
+            documents
+        };
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const errorCode = getDianErrorCode(error);
+        console.error('❌ Error descargando documentos DIAN:', errorCode, errorMessage);
+
+        return {
+            success: false,
+            error: errorMessage,
+            errorCode
+        };
+    } finally {
+        if (cookieContext) {
+            await cookieContext.dispose().catch(err => console.warn('⚠️ Error cerrando el contexto HTTP:', err));
+        }
+        if (session) {
+            await closeCertificateSession(session);
+        }
+    }
+}
+
+function normalizeCufes(cufes: unknown): string[] {
+    if (!Array.isArray(cufes) || cufes.length === 0) {
+        throw createDianError('cufes debe ser una lista con al menos un CUFE', 'VALIDATION_ERROR');
+    }
+
+    const normalized = Array.from(new Set(cufes.map(cufe => String(cufe).trim().toLowerCase())));
+
+    if (normalized.length > CONFIG.maxCufes) {
+        throw createDianError(`Se permiten máximo ${CONFIG.maxCufes} CUFE por solicitud`, 'VALIDATION_ERROR');
+    }
+
+    const invalid = normalized.filter(cufe => !CONFIG.cufePattern.test(cufe));
+    if (invalid.length) {
+        throw createDianError(`CUFE inválidos: ${invalid.join(', ')}`, 'VALIDATION_ERROR');
+    }
+
+    return normalized;
+}
+
+/**
+ * Convierte las cookies de `dian-auth` al formato de storageState de Playwright
+ */
+function toStorageCookies(cookies: DianSessionCookie[]) {
+    return cookies.map(cookie => ({
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain,
+        path: cookie.path || '/',
+        expires: cookie.expires ?? -1,
+        httpOnly: cookie.httpOnly ?? false,
+        secure: cookie.secure ?? true,
+        sameSite: (['Strict', 'Lax', 'None'].includes(String(cookie.sameSite)) ? cookie.sameSite : 'Lax') as 'Strict' | 'Lax' | 'None'
+    }));
+}
+
+/**
+ * Descarga el ZIP (XML + PDF) de un CUFE y lo guarda en el destino o lo devuelve en base64
+ */
+async function downloadDocument(requestContext: APIRequestContext, cufe: string, storage: DocumentStorage | null): Promise<DianDocumentDownload> {
+    const url = `${CONFIG.urls.downloadZip}?trackId=${encodeURIComponent(cufe)}`;
+    const response = await requestContext.get(url, { timeout: CONFIG.timeouts.download });
+
+    if (response.status() === 404) {
+        throw createDianError('La DIAN no encontró el documento', 'DOCUMENT_NOT_FOUND');
+    }
+
+    if (!response.ok()) {
+        throw createDianError(`La DIAN respondió ${response.status()} al descargar el documento`, response.status() >= 500 ? 'PORTAL_UNAVAILABLE' : 'UNKNOWN');
+    }
+
+    const contentType = response.headers()['content-type'] ?? '';
+
+    // El portal redirige al login (HTML) cuando la sesión no es válida
+    if (contentType.includes('text/html')) {
+        if (new URL(response.url()).pathname.toLowerCase().startsWith('/user/')) {
+            throw sessionExpiredError();
+        }
+        throw createDianError('La DIAN no devolvió el archivo del documento', 'DOCUMENT_NOT_FOUND');
+    }
+
+    const content = await response.body();
+
+    if (!content.subarray(0, 2).equals(ZIP_SIGNATURE)) {
+        throw createDianError('El archivo descargado no es un ZIP válido', 'UNKNOWN');
+    }
+
+    const fileName = readFileName(response.headers()['content-disposition']) ?? `${cufe}.zip`;
+    // Varios CUFE pueden traer el mismo nombre: el CUFE evita que un archivo reemplace a otro
+    const storageName = fileName.toLowerCase().startsWith(cufe) ? fileName : `${cufe}-${fileName}`;
+    const document: DianDocumentDownload = {
+        cufe,
+        success: true,
+        fileName,
+        size: content.length
+    };
+
+    if (storage) {
+        try {
+            document.location = await storage.save(storageName, content, 'application/zip');
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw createDianError(`No se pudo guardar el documento: ${errorMessage}`, 'STORAGE_ERROR');
+        }
+    } else {
+        document.base64 = content.toString('base64');
+    }
+
+    return document;
+}
+
+function sessionExpiredError(): Error {
+    const error = createDianError('La sesión de la DIAN no es válida o expiró', 'INVALID_CREDENTIALS');
+    (error as any).sessionExpired = true;
+    return error;
+}
+
+function isSessionExpired(error: unknown): boolean {
+    return (error as any)?.sessionExpired === true;
+}
+
+/**
+ * Nombre del archivo según content-disposition, sin rutas: el valor viene del servidor
+ * y un "../" o "a/b" no debe salir del directorio o prefijo del destino
+ */
+function readFileName(contentDisposition?: string): string | null {
+    if (!contentDisposition) {
+        return null;
+    }
+
+    const match = contentDisposition.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+    if (!match) {
+        return null;
+    }
+
+    let decoded = match[1];
+    try {
+        decoded = decodeURIComponent(decoded);
+    } catch {
+        // Un % suelto no es codificación URI: se usa el nombre tal cual
+    }
+
+    const fileName = path.basename(decoded.replace(/\\/g, '/'))
+        .replace(/[\x00-\x1f]/g, '')
+        .replace(/^\.+/, '')
+        .trim();
+
+    return fileName || null;
+}
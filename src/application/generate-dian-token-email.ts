@@ -1,10 +1,16 @@
-import { chromium, Browser, BrowserContext, Page } from 'playwright-core';
+import { Browser, BrowserContext, Page } from 'playwright-core';
 import { resolveCaptcha } from '../infrastructure/utils/captcha';
-import type { DianTokenEmailPayload, DianTokenEmailResult } from '../domain/dian/interfaces';
+import { assertCaptchaBudget } from '../infrastructure/captcha/usage';
+import { getCaptchaMaxRetries, reportCaptchaSolution } from '../infrastructure/captcha/registry';
+import { resolveMailboxConfig, waitForDianTokenEmail } from '../infrastructure/mail/dian-token-mailbox';
+import { createDianError, getDianErrorCode, isDianErrorCode } from '../domain/dian/errors';
+import { normalizeNit, NormalizedNit } from '../infrastructure/utils/identification';
+import { withProxyRetry, ProxyConfig } from '../infrastructure/config/proxies';
+import { getBrowserLauncher } from '../infrastructure/browser/launcher';
+import type { DianMailboxConfig, DianTokenEmailPayload, DianTokenEmailResult } from '../domain/dian/interfaces';
+import type { CaptchaSolution } from '../domain/captcha/interfaces';
 
 const isLambda = !!process.env.AWS_LAMBDA_FUNCTION_NAME;
-// eslint-disable-next-line @typescript-eslint/no-var-requires
-const chromiumPkg = isLambda ? require('@sparticuz/chromium') : null;
 
 interface ModalGuardState {
     lastError: string | null;
@@ -60,13 +66,56 @@ const CONFIG = {
 } as const;
 
 export async function handle(payload: DianTokenEmailPayload): Promise<DianTokenEmailResult> {
+    let mailboxConfig: DianMailboxConfig | null;
+    let identification: NormalizedNit;
+
+    // Los datos inválidos se rechazan antes de lanzar el navegador
+    try {
+        validatePayload(payload);
+        identification = normalizeNit(payload.companyCode, 'companyCode');
+        mailboxConfig = resolveMailboxConfig(payload.mailbox, payload.mailboxRef);
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return {
+            success: false,
+            error: errorMessage,
+            errorCode: 'VALIDATION_ERROR',
+            origin: payload.origin
+        };
+    }
+
+    const requestedAt = new Date();
+    const result = await requestTokenEmail({
+        ...payload,
+        companyCode: identification.nit,
+        userCode: String(payload.userCode).replace(/[\s.,]/g, '')
+    });
+    result.nit = identification.nit;
+    result.dv = identification.dv;
+
+    if (!result.success || !mailboxConfig) {
+        return result;
+    }
+
+    try {
+        const email = await waitForDianTokenEmail(mailboxConfig, requestedAt);
+        result.tokenUrl = email.tokenUrl;
+        result.tokenReceivedAt = email.receivedAt;
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error('❌ Error leyendo el correo de la DIAN:', errorMessage);
+        result.mailboxError = errorMessage;
+    }
+
+    return result;
+}
+
+async function requestTokenEmail(payload: DianTokenEmailPayload): Promise<DianTokenEmailResult> {
     let browser: Browser | null = null;
     let context: BrowserContext | null = null;
     let page: Page | null = null;
 
     try {
-        validatePayload(payload);
-
         console.log('=== Generar token DIAN por correo (Playwright) ===');
         console.log('Origen:', payload.origin ?? 'no especificado');
 
@@ -78,20 +127,17 @@ export async function handle(payload: DianTokenEmailPayload): Promise<DianTokenE
 
         const headless = payload.headless ?? isLambda;
 
-        browser = await initializeBrowser(headless);
-        context = await browser.newContext();
-        page = await context.newPage();
-        await setupModalGuards(page);
+        // Falla rápido si se agotó el presupuesto de captcha, antes de lanzar el navegador
+        await assertCaptchaBudget();
 
-        await page.goto(targetUrl, {
-            waitUntil: 'domcontentloaded',
-            timeout: 60000
-        });
-        await waitForModalGuardReady(page);
+        // En Lambda se reutiliza el navegador de la invocación anterior si sigue sano
+        browser = await getBrowserLauncher().acquire({ headless });
+        const activeBrowser = browser;
 
-        await interactWithLoginForm(page, payload, isPersonLogin);
+        // Un proxy caído falla antes de llegar a la DIAN: se reintenta la apertura con otro
+        ({ context, page } = await withProxyRetry('dian', proxy => openLoginPage(activeBrowser, targetUrl, proxy)));
 
-        const message = await waitForResultMessage(page, isPersonLogin);
+        const message = await submitLoginForm(page, payload, isPersonLogin, targetUrl);
 
         console.log('Resultado exitoso:', message);
 
@@ -102,7 +148,8 @@ export async function handle(payload: DianTokenEmailPayload): Promise<DianTokenE
         };
     } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : String(error);
-        console.error('❌ Error generando token DIAN:', errorMessage);
+        const errorCode = getDianErrorCode(error);
+        console.error('❌ Error generando token DIAN:', errorCode, errorMessage);
 
         let screenshot: string | undefined;
 
@@ -119,6 +166,7 @@ export async function handle(payload: DianTokenEmailPayload): Promise<DianTokenE
         const errorResponse: DianTokenEmailResult = {
             success: false,
             error: errorMessage,
+            errorCode,
             origin: payload.origin
         };
 
@@ -135,7 +183,7 @@ export async function handle(payload: DianTokenEmailPayload): Promise<DianTokenE
             await context.close().catch(err => console.warn('⚠️ Error cerrando el contexto:', err));
         }
         if (browser) {
-            await browser.close().catch(err => console.warn('⚠️ Error cerrando el navegador:', err));
+            await getBrowserLauncher().release(browser);
         }
     }
 }
@@ -148,56 +196,31 @@ function validatePayload(payload: DianTokenEmailPayload): void {
     if (!payload.companyCode) missingFields.push('companyCode');
 
     if (missingFields.length) {
-        throw new Error(`Campos obligatorios faltantes: ${missingFields.join(', ')}`);
+        throw createDianError(`Campos obligatorios faltantes: ${missingFields.join(', ')}`, 'VALIDATION_ERROR');
     }
 }
 
-async function initializeBrowser(headless: boolean): Promise<Browser> {
-    const baseArgs = [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--disable-gpu',
-        '--window-size=1920x1080',
-        '--single-process',
-        '--no-zygote',
-        '--disable-web-security',
-        '--disable-features=IsolateOrigins,site-per-process',
-        '--disable-blink-features=AutomationControlled',
-        '--disable-background-timer-throttling',
-        '--disable-backgrounding-occluded-windows',
-        '--disable-renderer-backgrounding',
-        '--disable-ipc-flooding-protection',
-        '--disable-hang-monitor',
-        '--disable-prompt-on-repost',
-        '--disable-sync',
-        '--disable-domain-reliability',
-        '--metrics-recording-only',
-        '--no-first-run',
-        '--safebrowsing-disable-auto-update',
-        '--disable-client-side-phishing-detection',
-        '--disable-default-apps',
-        '--mute-audio',
-        '--hide-scrollbars',
-        '--disable-background-networking',
-        '--disk-cache-size=0'
-    ];
+/**
+ * Abre el formulario de login en un contexto nuevo, detrás de un proxy si dian está en PROXY_SCOPES
+ */
+async function openLoginPage(browser: Browser, targetUrl: string, proxy: ProxyConfig | null): Promise<{ context: BrowserContext; page: Page }> {
+    const context = await getBrowserLauncher().newContext(browser, { proxy });
 
-    if (isLambda) {
-        console.log('Ejecutando en entorno AWS Lambda');
-        return chromium.launch({
-            args: chromiumPkg.args.concat(baseArgs),
-            executablePath: await chromiumPkg.executablePath(),
-            headless: true,
+    try {
+        const page = await context.newPage();
+        await setupModalGuards(page);
+
+        await page.goto(targetUrl, {
+            waitUntil: 'domcontentloaded',
+            timeout: 60000
         });
-    }
+        await waitForModalGuardReady(page);
 
-    console.log('Ejecutando en entorno local');
-    return chromium.launch({
-        headless,
-        args: baseArgs,
-    });
+        return { context, page };
+    } catch (error) {
+        await context.close().catch(err => console.warn('⚠️ Error cerrando el contexto:', err));
+        throw error;
+    }
 }
 
 async function setupModalGuards(page: Page): Promise<void> {
@@ -326,15 +349,66 @@ async function waitForModalGuardReady(page: Page): Promise<void> {
     }
 }
 
-async function interactWithLoginForm(page: Page, payload: DianTokenEmailPayload, isPersonLogin: boolean): Promise<void> {
-    if (isPersonLogin) {
-        await interactWithPersonForm(page, payload);
-    } else {
-        await interactWithCompanyForm(page, payload);
+/**
+ * Llena y envía el formulario hasta obtener la respuesta de la DIAN.
+ * Si la DIAN rechaza el token del captcha se reporta al proveedor y se vuelve a resolver
+ * con la página recargada, hasta CAPTCHA_MAX_RETRIES veces. Un token aceptado también se reporta,
+ * incluso si la DIAN responde después que los datos son incorrectos o el usuario no está registrado.
+ */
+async function submitLoginForm(page: Page, payload: DianTokenEmailPayload, isPersonLogin: boolean, targetUrl: string): Promise<string> {
+    const maxRetries = getCaptchaMaxRetries();
+
+    for (let retry = 0; ; retry++) {
+        const captchaSolution = await interactWithLoginForm(page, payload, isPersonLogin);
+
+        try {
+            const message = await waitForResultMessage(page, isPersonLogin);
+            await reportCaptchaSolution(captchaSolution, true);
+            return message;
+        } catch (error: unknown) {
+            const errorCode = getDianErrorCode(error);
+
+            // La DIAN solo valida usuario y contraseña después de aceptar el captcha
+            if (errorCode === 'INVALID_CREDENTIALS' || errorCode === 'USER_NOT_REGISTERED') {
+                await reportCaptchaSolution(captchaSolution, true);
+            }
+
+            if (errorCode !== 'CAPTCHA_REJECTED') {
+                throw error;
+            }
+
+            await reportCaptchaSolution(captchaSolution, false);
+
+            if (retry >= maxRetries) {
+                throw error;
+            }
+
+            console.warn(`🔁 La DIAN rechazó el captcha; se resuelve de nuevo (reintento ${retry + 1} de ${maxRetries})`);
+            await reloadLoginPage(page, targetUrl);
+        }
     }
 }
 
-async function interactWithPersonForm(page: Page, payload: DianTokenEmailPayload): Promise<void> {
+/**
+ * Vuelve a cargar el formulario descartando el error del modal guardado en sessionStorage,
+ * para que el siguiente intento no lo lea como respuesta
+ */
+async function reloadLoginPage(page: Page, targetUrl: string): Promise<void> {
+    await consumeStoredModalError(page);
+    await page.goto(targetUrl, {
+        waitUntil: 'domcontentloaded',
+        timeout: 60000
+    });
+    await waitForModalGuardReady(page);
+}
+
+async function interactWithLoginForm(page: Page, payload: DianTokenEmailPayload, isPersonLogin: boolean): Promise<CaptchaSolution> {
+    return isPersonLogin
+        ? interactWithPersonForm(page, payload)
+        : interactWithCompanyForm(page, payload);
+}
+
+async function interactWithPersonForm(page: Page, payload: DianTokenEmailPayload): Promise<CaptchaSolution> {
     console.log('Esperando formulario de persona...');
     await page.waitForSelector(CONFIG.selectors.person.form, { state: 'visible' });
 
@@ -346,7 +420,7 @@ async function interactWithPersonForm(page: Page, payload: DianTokenEmailPayload
     const captchaSolution = await solveTurnstileCaptcha(page);
 
     if (!captchaSolution) {
-        throw new Error('No se pudo resolver el captcha Turnstile');
+        throw createDianError('No se pudo resolver el captcha Turnstile', 'CAPTCHA_UNSOLVED');
     }
 
     console.log('Captcha resuelto. Enviando formulario...');
@@ -359,9 +433,11 @@ async function interactWithPersonForm(page: Page, payload: DianTokenEmailPayload
         console.warn('⚠️  Falló el click en submit del formulario de persona, reintentando con force...');
         await submitButton.click({ force: true });
     }
+
+    return captchaSolution;
 }
 
-async function interactWithCompanyForm(page: Page, payload: DianTokenEmailPayload): Promise<void> {
+async function interactWithCompanyForm(page: Page, payload: DianTokenEmailPayload): Promise<CaptchaSolution> {
     const legalRepresentativeButton = page.locator(CONFIG.selectors.company.legalRepresentativeButton);
     await legalRepresentativeButton.waitFor({ state: 'visible' });
     await page.waitForTimeout(5000);
@@ -387,7 +463,7 @@ async function interactWithCompanyForm(page: Page, payload: DianTokenEmailPayloa
     const captchaSolution = await solveTurnstileCaptcha(page);
 
     if (!captchaSolution) {
-        throw new Error('No se pudo resolver el captcha Turnstile');
+        throw createDianError('No se pudo resolver el captcha Turnstile', 'CAPTCHA_UNSOLVED');
     }
 
     console.log('Captcha resuelto. Enviando formulario...');
@@ -400,20 +476,22 @@ async function interactWithCompanyForm(page: Page, payload: DianTokenEmailPayloa
         console.warn('⚠️  Falló el click en submit del formulario de empresa, reintentando con force...');
         await submitButton.click({ force: true });
     }
+
+    return captchaSolution;
 }
 
-async function solveTurnstileCaptcha(page: Page): Promise<string | null> {
+async function solveTurnstileCaptcha(page: Page): Promise<CaptchaSolution | null> {
     await page.waitForSelector(CONFIG.selectors.common.captchaContainer, { state: 'visible', timeout: CONFIG.timeouts.captcha });
 
     const siteKey = await page.getAttribute(CONFIG.selectors.common.captchaContainer, 'data-sitekey');
 
     if (!siteKey) {
-        throw new Error('No se pudo obtener el sitekey del captcha');
+        throw createDianError('No se pudo obtener el sitekey del captcha', 'CAPTCHA_UNSOLVED');
     }
 
-    const token = await resolveCaptcha(siteKey, page.url());
+    const captchaSolution = await resolveCaptcha(siteKey, page.url());
 
-    if (!token) {
+    if (!captchaSolution) {
         return null;
     }
 
@@ -425,9 +503,9 @@ async function solveTurnstileCaptcha(page: Page): Promise<string | null> {
             field.dispatchEvent(new Event('input', { bubbles: true }));
             field.dispatchEvent(new Event('change', { bubbles: true }));
         }
-    }, { selector: CONFIG.selectors.common.captchaResponseInput, solution: token });
+    }, { selector: CONFIG.selectors.common.captchaResponseInput, solution: captchaSolution.token });
 
-    return token;
+    return captchaSolution;
 }
 
 async function waitForResultMessage(page: Page, isPersonLogin: boolean): Promise<string> {
@@ -439,13 +517,13 @@ async function waitForResultMessage(page: Page, isPersonLogin: boolean): Promise
         const storedModalError = await consumeStoredModalError(page);
         if (storedModalError) {
             lastModalError = storedModalError;
-            throw new Error(storedModalError);
+            throw createDianError(storedModalError);
         }
 
         const modalState = await getModalState(page);
         if (modalState?.lastError) {
             lastModalError = modalState.lastError;
-            throw new Error(modalState.lastError);
+            throw createDianError(modalState.lastError);
         }
 
         if (modalState?.blockedRedirects?.length) {
@@ -458,7 +536,7 @@ async function waitForResultMessage(page: Page, isPersonLogin: boolean): Promise
         const modalError = await readModalError(page);
         if (modalError) {
             lastModalError = modalError;
-            throw new Error(modalError);
+            throw createDianError(modalError);
         }
 
         try {
@@ -476,12 +554,14 @@ async function waitForResultMessage(page: Page, isPersonLogin: boolean): Promise
         try {
             const extractedError = await extractErrorMessage(page);
             if (extractedError) {
-                throw new Error(extractedError);
+                throw createDianError(extractedError);
             }
         } catch (error) {
             const message = error instanceof Error ? error.message : String(error);
             if (message.includes('Target page, context or browser has been closed')) {
-                throw new Error(lastModalError ?? 'La página de la DIAN se recargó antes de obtener respuesta. Verifique el estado del portal e intente nuevamente.');
+                throw lastModalError
+                    ? createDianError(lastModalError)
+                    : createDianError('La página de la DIAN se recargó antes de obtener respuesta. Verifique el estado del portal e intente nuevamente.', 'PAGE_RELOADED');
             }
            throw error;
         }
@@ -491,7 +571,9 @@ async function waitForResultMessage(page: Page, isPersonLogin: boolean): Promise
         }
 
         if (page.isClosed()) {
-            throw new Error(lastModalError ?? 'La página de la DIAN se cerró antes de obtener respuesta. Verifique los datos e intente nuevamente.');
+            throw lastModalError
+                ? createDianError(lastModalError)
+                : createDianError('La página de la DIAN se cerró antes de obtener respuesta. Verifique los datos e intente nuevamente.', 'PAGE_RELOADED');
         }
 
         // Solo verificar botón de empresa si no es login de persona
@@ -506,18 +588,22 @@ async function waitForResultMessage(page: Page, isPersonLogin: boolean): Promise
 
                     if (returnedToSelection) {
                         if (lastModalError) {
-                            throw new Error(lastModalError);
+                            throw createDianError(lastModalError);
                         }
 
                         const fallbackModal = await readModalError(page);
                         if (fallbackModal) {
-                            throw new Error(fallbackModal);
+                            throw createDianError(fallbackModal);
                         }
 
-                        throw new Error('No fue posible generar el token. Verifique la información e intente nuevamente.');
+                        throw createDianError('No fue posible generar el token. Verifique la información e intente nuevamente.');
                     }
                 }
             } catch (error) {
+                // El error de la DIAN ya clasificado es la respuesta; solo se ignoran fallas al leer la página
+                if (isDianErrorCode((error as any)?.code)) {
+                    throw error;
+                }
                 console.warn('No fue posible verificar el estado del formulario inicial.', error);
             }
         }
@@ -525,7 +611,9 @@ async function waitForResultMessage(page: Page, isPersonLogin: boolean): Promise
         await page.waitForTimeout(100);
     }
 
-    throw new Error(lastModalError ?? 'No se recibió confirmación del envío del correo. Verifique las credenciales.');
+    throw lastModalError
+        ? createDianError(lastModalError)
+        : createDianError('No se recibió confirmación del envío del correo. Verifique las credenciales.', 'UNKNOWN');
 }
 
 async function readModalError(page: Page): Promise<string | null> {
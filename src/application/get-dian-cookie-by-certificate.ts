@@ -1,16 +1,31 @@
-import { chromium, Browser, BrowserContext, Page } from 'playwright-core';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as forge from 'node-forge';
+import { Browser, BrowserContext, Page } from 'playwright-core';
 import { resolveCaptcha } from '../infrastructure/utils/captcha';
-import { Payload } from '../domain/dian/interfaces';
-
-// Detectar si estamos en Lambda
-const isLambda = !!process.env.AWS_LAMBDA_FUNCTION_NAME;
-
-// Importar @sparticuz/chromium solo si estamos en Lambda (usando require)
-// eslint-disable-next-line @typescript-eslint/no-var-requires
-const chromiumPkg = isLambda ? require('@sparticuz/chromium') : null;
+import { assertCaptchaBudget } from '../infrastructure/captcha/usage';
+import { getCaptchaMaxRetries, reportCaptchaSolution } from '../infrastructure/captcha/registry';
+import { Payload, DianSessionCookie, CertificateInspection } from '../domain/dian/interfaces';
+import type { CaptchaSolution } from '../domain/captcha/interfaces';
+import { isFatalCaptchaError } from '../domain/captcha/errors';
+import { loadP12, inspectP12, findCertificateIssue, buildClientCertificate, P12Bundle } from '../infrastructure/utils/certificate';
+import { normalizeDocumentNumber, NormalizedDocument } from '../infrastructure/utils/identification';
+import { classifyDianError, getDianErrorCode, DianErrorCode } from '../domain/dian/errors';
+import { withProxyRetry, isProxyError } from '../infrastructure/config/proxies';
+import { getBrowserLauncher } from '../infrastructure/browser/launcher';
+
+// Orígenes de la DIAN que solicitan el certificado de cliente
+const CLIENT_CERTIFICATE_ORIGINS = [
+    'https://certificate-vpfe.dian.gov.co',
+    'https://catalogo-vpfe.dian.gov.co',
+    'https://vpfe.dian.gov.co',
+];
+
+// Modal y alertas donde el portal muestra el motivo de un login rechazado
+const ERROR_MESSAGE_SELECTORS = [
+    '#errorModal-message',
+    '.dian-alert-danger p',
+    '.toast-message',
+    '.validation-summary-errors',
+    '.field-validation-error'
+];
 
 // ============================================
 // INTERFACES Y TIPOS
@@ -36,6 +51,8 @@ interface AfterLoginInfo {
     title: string;
     url: string;
     bodyText: string;
+    /** Texto del primer modal o alerta de error visible */
+    errorMessage: string;
 }
 
 interface CaptchaInfo {
@@ -45,6 +62,8 @@ interface CaptchaInfo {
 
 interface HandleResult {
     success: boolean;
+    nit?: string;
+    dv?: string;
     certificateAccepted?: boolean;
     formFilled?: boolean;
     pageInfo?: PageInfo;
@@ -52,17 +71,26 @@ interface HandleResult {
         beforeSubmit?: string;  // base64
         final?: string;         // base64
     };
-    cookies?: Array<{
-        name: string;
-        value: string;
-        domain: string;
-        path: string;
-        expires?: number;
-        httpOnly?: boolean;
-        secure?: boolean;
-        sameSite?: string;
-    }>;
+    cookies?: DianSessionCookie[];
+    certificate?: CertificateInspection;
     error?: string;
+    errorCode?: DianErrorCode;
+}
+
+export interface CertificateSession {
+    browser: Browser;
+    context: BrowserContext;
+    page: Page;
+    headless: boolean;
+    hasLoginForm: boolean;
+    loginSuccess: boolean;
+    pageInfo: PageInfo;
+    screenshots: {
+        beforeSubmit?: string;
+        final?: string;
+    };
+    certificate?: CertificateInspection;
+    identification: NormalizedDocument;
 }
 
 // ============================================
@@ -70,13 +98,89 @@ interface HandleResult {
 // ============================================
 
 export async function handle(payload: Payload): Promise<HandleResult> {
+    let session: CertificateSession | null = null;
+
+    try {
+        console.log('=== Prueba de acceso a DIAN con Playwright ===\n');
+
+        session = await openCertificateSession(payload);
+        const { page, context, screenshots } = session;
+
+        // ============================================
+        // PASO 9: Tomar screenshot final
+        // ============================================
+        console.log('\n📸 Capturando screenshot final...');
+        const finalBuffer = await page.screenshot({ fullPage: true });
+        screenshots.final = finalBuffer.toString('base64');
+        console.log('✓ Screenshot final capturado en memoria (base64)');
+
+        // ============================================
+        // PASO 10: Capturar cookies
+        // ============================================
+        console.log('\n🍪 Capturando cookies...');
+        const cookies = await context.cookies();
+        console.log(`✓ ${cookies.length} cookies capturadas`);
+        
+        // Log de las cookies para debugging
+        cookies.forEach(cookie => {
+            console.log(`   - ${cookie.name}: ${cookie.value.substring(0, 50)}${cookie.value.length > 50 ? '...' : ''}`);
+        });
+
+        // ============================================
+        // PASO 11: Esperar para inspección (si no es headless)
+        // ============================================
+        if (!session.headless) {
+            console.log('\n👀 El navegador permanecerá abierto por 60 segundos...');
+            console.log('   Presiona Ctrl+C para cerrar antes');
+            await new Promise(resolve => setTimeout(resolve, 60000));
+        }
+
+        return {
+            success: true,
+            nit: session.identification.number,
+            dv: session.identification.dv,
+            certificateAccepted: session.hasLoginForm,
+            formFilled: session.hasLoginForm,
+            pageInfo: session.pageInfo,
+            screenshots: screenshots,
+            cookies: cookies,
+            certificate: session.certificate
+        };
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const errorStack = error instanceof Error ? error.stack : undefined;
+        
+        console.error('\n❌ Error:', errorMessage);
+        if (errorStack) {
+            console.error(errorStack);
+        }
+
+        return {
+            success: false,
+            error: errorMessage,
+            errorCode: getDianErrorCode(error)
+        };
+
+    } finally {
+        // Limpiar
+        if (session) {
+            await closeCertificateSession(session);
+        }
+    }
+}
+
+/**
+ * Valida el certificado, lanza el navegador e inicia sesión en la DIAN.
+ * Devuelve el navegador, el contexto y la página autenticados para que otras
+ * operaciones (p. ej. consulta de documentos) los reutilicen; el llamador debe
+ * cerrarlos con closeCertificateSession.
+ */
+export async function openCertificateSession(payload: Payload): Promise<CertificateSession> {
     let browser: Browser | null = null;
     let context: BrowserContext | null = null;
     const screenshots: { beforeSubmit?: string; final?: string } = {};
 
     try {
-        console.log('=== Prueba de acceso a DIAN con Playwright ===\n');
-
         // ============================================
         // CONFIGURACIÓN
         // ============================================
@@ -85,97 +189,66 @@ export async function handle(payload: Payload): Promise<HandleResult> {
             headless: payload.headless ?? false,
         };
 
-        // ============================================
-        // PASO 1: Decodificar certificado P12 desde base64
-        // ============================================
-        console.log('\n--- Decodificando certificado P12 desde base64 ---');
-
-        const p12Buffer = Buffer.from(payload.base64CertificateP12, 'base64');
-        console.log('✓ Certificado P12 decodificado desde base64');
+        // Es el documento personal del representante (puede ser pasaporte o cédula de extranjería),
+        // no el NIT de la empresa. El portal no lo reconoce con puntos, guion o DV
+        const identification = normalizeDocumentNumber(payload.nitRepresentanteLegal, 'nitRepresentanteLegal');
+        console.log(`✓ Documento representante legal: ${identification.number}${identification.dv ? ` (DV ${identification.dv})` : ''}`);
 
         // ============================================
-        // PASO 2: Convertir P12 a PEM usando node-forge
+        // PASO 1: Decodificar y validar certificado P12 desde base64
         // ============================================
-        console.log('\n--- Convirtiendo certificado P12 a PEM ---');
+        console.log('\n--- Validando certificado P12 ---');
+
+        // Falla rápido (contraseña, llave, vigencia) antes de lanzar el navegador
+        let bundle: P12Bundle | null = null;
+        let inspection: CertificateInspection | undefined;
 
-        // Crear carpeta temporal
-        const tempDir = '/tmp/playwright-certs';
-        if (!fs.existsSync(tempDir)) {
-            fs.mkdirSync(tempDir, { recursive: true });
+        try {
+            bundle = loadP12(payload.base64CertificateP12, payload.certificatePassword);
+        } catch (error: unknown) {
+            // Un formato que node-forge no lee aún puede servir si Playwright acepta el PFX directamente
+            if (getDianErrorCode(error) !== 'CERTIFICATE_UNSUPPORTED') {
+                throw error;
+            }
+            console.warn('⚠️  No se pudo inspeccionar el certificado:', error instanceof Error ? error.message : error);
         }
 
-        const certPath = path.join(tempDir, 'cert.pem');
-        const keyPath = path.join(tempDir, 'key.pem');
+        if (bundle) {
+            inspection = inspectP12(bundle, identification.number);
 
-        try {
-            // Convertir el buffer a formato que forge pueda leer
-            const p12Der = forge.util.encode64(p12Buffer.toString('binary'));
-            const p12Asn1 = forge.asn1.fromDer(forge.util.decode64(p12Der));
-            const p12 = forge.pkcs12.pkcs12FromAsn1(p12Asn1, payload.certificatePassword);
-
-            // Extraer los bags de certificados y llaves
-            const certBags = p12.getBags({ bagType: forge.pki.oids.certBag });
-            const pkeyBags = p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag });
-
-            // Obtener el primer certificado
-            const certBag = certBags[forge.pki.oids.certBag]?.[0];
-            if (!certBag || !certBag.cert) {
-                throw new Error('No se encontró un certificado en el archivo P12');
+            // El certificado de persona jurídica identifica a la empresa, no al representante;
+            // por eso la diferencia de NIT solo se advierte y no detiene el login
+            const issue = findCertificateIssue(inspection);
+            if (issue) {
+                throw issue;
             }
 
-            // Obtener la primera llave privada
-            const keyBag = pkeyBags[forge.pki.oids.pkcs8ShroudedKeyBag]?.[0];
-            if (!keyBag || !keyBag.key) {
-                throw new Error('No se encontró una llave privada en el archivo P12');
+            if (inspection.matchesNitRepresentanteLegal === false) {
+                console.warn(`⚠️  El certificado (${inspection.identifications.join(', ')}) no coincide con el NIT del representante legal`);
             }
 
-            // Convertir a PEM
-            const certPem = forge.pki.certificateToPem(certBag.cert);
-            const keyPem = forge.pki.privateKeyToPem(keyBag.key);
+            console.log(`✓ Certificado vigente hasta ${inspection.validTo} (${inspection.daysToExpiry} días)`);
+            console.log(`✓ Cadena de certificación: ${inspection.chain.length} certificado(s)${inspection.chain.complete ? ' hasta la raíz' : ' (incompleta)'}`);
+        }
 
-            // Guardar archivos PEM
-            fs.writeFileSync(certPath, certPem);
-            fs.writeFileSync(keyPath, keyPem);
+        // ============================================
+        // PASO 2: Preparar certificado de cliente para Playwright
+        // ============================================
+        console.log('\n--- Preparando certificado de cliente ---');
 
-            console.log('✓ Certificado extraído a PEM:', certPath);
-            console.log('✓ Clave privada extraída a PEM:', keyPath);
+        const clientCertificate = buildClientCertificate(payload.base64CertificateP12, payload.certificatePassword, bundle);
+        console.log(clientCertificate.pfx ? '✓ Se usará el PFX directamente' : '✓ Certificado convertido a PEM con su cadena');
 
-        } catch (error: unknown) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            throw new Error(`No se pudo convertir P12 a PEM: ${errorMessage}`);
-        }
+        // Falla rápido si se agotó el presupuesto de captcha, antes de lanzar el navegador
+        await assertCaptchaBudget();
 
         // ============================================
         // PASO 3: Lanzar navegador
         // ============================================
         console.log('\n--- Lanzando navegador con Playwright ---');
 
-        // Configuración específica para Lambda o desarrollo local
-        let launchOptions;
-        
-        console.log('DEBUG - isLambda:', isLambda);
-        console.log('DEBUG - AWS_LAMBDA_FUNCTION_NAME:', process.env.AWS_LAMBDA_FUNCTION_NAME);
-        console.log('DEBUG - chromiumPkg:', typeof chromiumPkg, chromiumPkg ? 'exists' : 'undefined');
-        console.log('DEBUG - chromiumPkg.args:', chromiumPkg?.args ? 'exists' : 'undefined');
-        
-        if (isLambda) {
-            launchOptions = {
-                args: chromiumPkg.args,
-                executablePath: await chromiumPkg.executablePath(),
-                headless: true, // Siempre headless en Lambda
-            };
-        } else {
-            launchOptions = {
-                headless: CONFIG.headless,
-                args: [
-                    '--no-sandbox',
-                    '--disable-setuid-sandbox',
-                ]
-            };
-        }
-
-        console.log('Entorno:', isLambda ? 'AWS Lambda' : 'Local');
-        browser = await chromium.launch(launchOptions);
+        // En Lambda se reutiliza el navegador de la invocación anterior si sigue sano
+        browser = await getBrowserLauncher().acquire({ headless: CONFIG.headless });
 
         console.log('✓ Navegador iniciado');
 
@@ -184,35 +257,7 @@ export async function handle(payload: Payload): Promise<HandleResult> {
         // ============================================
         console.log('\n--- Configurando certificado de cliente ---');
 
-        // Playwright necesita cert y key por separado
-        const absoluteCertPath = path.resolve(certPath);
-        const absoluteKeyPath = path.resolve(keyPath);
-
-        context = await browser.newContext({
-            clientCertificates: [{
-                origin: 'https://certificate-vpfe.dian.gov.co',
-                certPath: absoluteCertPath,
-                keyPath: absoluteKeyPath,
-            }, {
-                origin: 'https://catalogo-vpfe.dian.gov.co',
-                certPath: absoluteCertPath,
-                keyPath: absoluteKeyPath,
-            }, {
-                origin: 'https://vpfe.dian.gov.co',
-                certPath: absoluteCertPath,
-                keyPath: absoluteKeyPath,
-            }],
-            ignoreHTTPSErrors: true,
-            locale: 'es-CO',
-            viewport: { width: 1920, height: 1080 }
-        });
-
-        console.log('✅ Certificado configurado con archivos PEM separados');
-        console.log('   - Cert:', absoluteCertPath);
-        console.log('   - Key:', absoluteKeyPath);
-        console.log('✅ NO se mostrará el diálogo de selección');
-
-        const page: Page = await context.newPage();
+        // El contexto se crea al navegar: uno por intento si la DIAN va detrás de un proxy
 
         // ============================================
         // PASO 5: Navegar al sitio
@@ -222,16 +267,42 @@ export async function handle(payload: Payload): Promise<HandleResult> {
         console.log('\n💡 Con Playwright, el certificado se envía AUTOMÁTICAMENTE\n');
 
         const startTime = Date.now();
-
-        try {
-            await page.goto(CONFIG.url, {
-                waitUntil: 'domcontentloaded',
-                timeout: 60000
+        const activeBrowser: Browser = browser;
+
+        // Un proxy caído falla antes de llegar a la DIAN: se reintenta la navegación con otro
+        const opened = await withProxyRetry('dian', async proxy => {
+            const attemptContext = await getBrowserLauncher().newContext(activeBrowser, {
+                clientCertificates: CLIENT_CERTIFICATE_ORIGINS.map(origin => ({
+                    origin,
+                    ...clientCertificate,
+                })),
+                ignoreHTTPSErrors: true,
+                proxy
             });
-        } catch (error: unknown) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.log('⚠️  Error en navegación inicial:', errorMessage);
-        }
+            const attemptPage = await attemptContext.newPage();
+
+            try {
+                await attemptPage.goto(CONFIG.url, {
+                    waitUntil: 'domcontentloaded',
+                    timeout: 60000
+                });
+            } catch (error: unknown) {
+                if (proxy && isProxyError(error)) {
+                    await attemptContext.close().catch(err => console.warn('⚠️ Error cerrando el contexto:', err));
+                    throw error;
+                }
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                console.log('⚠️  Error en navegación inicial:', errorMessage);
+            }
+
+            return { context: attemptContext, page: attemptPage };
+        });
+
+        context = opened.context;
+        const page: Page = opened.page;
+
+        console.log('✅ Certificado configurado para:', CLIENT_CERTIFICATE_ORIGINS.join(', '));
+        console.log('✅ NO se mostrará el diálogo de selección');
 
         // ============================================
         // PASO 6: Detectar y sortear página "No es seguro"
@@ -334,6 +405,8 @@ export async function handle(payload: Payload): Promise<HandleResult> {
             pageInfo.hasIdentificationTypeField &&
             pageInfo.hasUserCodeField;
 
+        let loginSuccess = false;
+
         if (hasLoginForm) {
             console.log('✅ Formulario de autenticación detectado');
             console.log('✅ El certificado fue aceptado - ahora en formulario de datos');
@@ -344,128 +417,174 @@ export async function handle(payload: Payload): Promise<HandleResult> {
             console.log('\n--- Llenando formulario automáticamente ---');
 
             try {
-                // Seleccionar tipo de identificación
-                console.log(`Seleccionando tipo de identificación: ${payload.identificationType}`);
-                await page.selectOption('#CompanyIdentificationType', payload.identificationType);
-                console.log('✓ Tipo de identificación seleccionado');
-
-                await page.waitForTimeout(500);
+                // Si la DIAN rechaza el token del captcha se vuelve a llenar el formulario con un token nuevo
+                const loginUrl = page.url();
+                const maxCaptchaRetries = getCaptchaMaxRetries();
+
+                for (let retry = 0; ; retry++) {
+                    // Seleccionar tipo de identificación
+                    console.log(`Seleccionando tipo de identificación: ${payload.identificationType}`);
+                    await page.selectOption('#CompanyIdentificationType', payload.identificationType);
+                    console.log('✓ Tipo de identificación seleccionado');
+
+                    await page.waitForTimeout(500);
+
+                    // Llenar NIT del representante legal
+                    console.log(`Ingresando documento representante legal: ${identification.number}`);
+                    await page.fill('#UserCode', identification.number);
+                    console.log('✓ NIT representante legal ingresado');
+
+                    await page.waitForTimeout(500);
+
+                    // Verificar NIT de empresa (readonly)
+                    const companyCode = await page.inputValue('#CompanyCode');
+                    console.log(`✓ NIT de empresa detectado: ${companyCode}`);
+
+                    // ============================================
+                    // Detectar y resolver Captcha Turnstile
+                    // ============================================
+                    console.log('\n--- Verificando Captcha ---');
+
+                    const hasCaptcha: CaptchaInfo = await page.evaluate(() => {
+                        const turnstileElement = document.querySelector('.cf-turnstile');
+                        if (turnstileElement) {
+                            return {
+                                exists: true,
+                                siteKey: turnstileElement.getAttribute('data-sitekey') || ''
+                            };
+                        }
+                        return { exists: false, siteKey: '' };
+                    });
+
+                    let captchaSolved = false;
+                    let captchaSolution: CaptchaSolution | null = null;
+
+                    if (hasCaptcha.exists && hasCaptcha.siteKey) {
+                        console.log('✓ Captcha Turnstile detectado');
+
+                        const currentUrl = page.url();
+                        captchaSolution = await resolveCaptcha(hasCaptcha.siteKey, currentUrl);
+
+                        if (captchaSolution) {
+                            console.log('\n💉 Inyectando solución del captcha en el formulario...');
+
+                            // Inyectar el token del captcha
+                            await page.evaluate((solution: string) => {
+                                const captchaField = document.querySelector('input[name="cf-turnstile-response"]') as HTMLInputElement | null;
+                                if (captchaField) {
+                                    captchaField.value = solution;
+                                }
+                            }, captchaSolution.token);
+
+                            console.log('✅ Solución del captcha inyectada');
+                            captchaSolved = true;
+
+                            // Esperar un momento para asegurar que se procesó
+                            await page.waitForTimeout(1000);
+                        } else {
+                            console.log('❌ No se pudo resolver el captcha automáticamente');
+                            console.log('⏳ Esperando 10 segundos para resolución manual...');
+                            await page.waitForTimeout(10000);
+                        }
+                    } else {
+                        console.log('✓ No hay captcha en esta página');
+                        captchaSolved = true; // No hay captcha, podemos continuar
+                    }
 
-                // Llenar NIT del representante legal
-                console.log(`Ingresando NIT representante legal: ${payload.nitRepresentanteLegal}`);
-                await page.fill('#UserCode', payload.nitRepresentanteLegal);
-                console.log('✓ NIT representante legal ingresado');
+                    // Tomar screenshot antes de enviar
+                    console.log('\n📸 Capturando screenshot antes de enviar...');
+                    const beforeSubmitBuffer = await page.screenshot();
+                    screenshots.beforeSubmit = beforeSubmitBuffer.toString('base64');
+                    console.log('✓ Screenshot capturado en memoria (base64)');
+
+                    // Hacer clic en el botón "Entrar"
+                    if (captchaSolved || !hasCaptcha.exists) {
+                        console.log('\n🚀 Enviando formulario...');
+                        await page.click('button.btn-primary');
+                        console.log('✓ Formulario enviado');
+                    } else {
+                        console.log('\n⚠️  No se enviará el formulario porque el captcha no fue resuelto');
+                        console.log('   El navegador permanecerá abierto para inspección manual');
+                    }
 
-                await page.waitForTimeout(500);
+                    // Esperar a que cargue la siguiente página
+                    await page.waitForLoadState('networkidle', { timeout: 30000 }).catch(() => {
+                        console.log('⏱️ Timeout esperando respuesta del servidor');
+                    });
 
-                // Verificar NIT de empresa (readonly)
-                const companyCode = await page.inputValue('#CompanyCode');
-                console.log(`✓ NIT de empresa detectado: ${companyCode}`);
+                    // Esperar un momento adicional
+                    await page.waitForTimeout(3000);
 
-                // ============================================
-                // Detectar y resolver Captcha Turnstile
-                // ============================================
-                console.log('\n--- Verificando Captcha ---');
+                    // Analizar resultado después del login
+                    const afterLoginInfo: AfterLoginInfo = await page.evaluate((selectors: string[]) => {
+                        const visibleError = selectors
+                            .flatMap(selector => Array.from(document.querySelectorAll<HTMLElement>(selector)))
+                            .find(element => element.offsetParent !== null && element.innerText.trim() !== '');
 
-                const hasCaptcha: CaptchaInfo = await page.evaluate(() => {
-                    const turnstileElement = document.querySelector('.cf-turnstile');
-                    if (turnstileElement) {
                         return {
-                            exists: true,
-                            siteKey: turnstileElement.getAttribute('data-sitekey') || ''
+                            title: document.title,
+                            url: window.location.href,
+                            bodyText: document.body.innerText.substring(0, 500),
+                            errorMessage: visibleError?.innerText.trim() ?? ''
                         };
+                    }, ERROR_MESSAGE_SELECTORS);
+
+                    console.log('\n--- Resultado después del login ---');
+                    console.log('URL:', afterLoginInfo.url);
+                    console.log('Título:', afterLoginInfo.title);
+
+                    // Verificar si el login fue exitoso
+                    loginSuccess =
+                        afterLoginInfo.url.includes('Dashboard') ||
+                        afterLoginInfo.url.includes('Home') ||
+                        afterLoginInfo.bodyText.includes('Bienvenido') ||
+                        afterLoginInfo.bodyText.includes('Menú Principal') ||
+                        !afterLoginInfo.url.includes('Login');
+
+                    // Solo el mensaje de error cuenta: el formulario siempre muestra el widget del captcha
+                    const rejectionCode = !loginSuccess && afterLoginInfo.errorMessage !== ''
+                        ? classifyDianError(afterLoginInfo.errorMessage)
+                        : null;
+                    const captchaRejected = rejectionCode === 'CAPTCHA_REJECTED';
+                    // Los datos del representante solo se validan después de aceptar el captcha
+                    const captchaAccepted = loginSuccess || rejectionCode === 'INVALID_CREDENTIALS' || rejectionCode === 'USER_NOT_REGISTERED';
+
+                    if (afterLoginInfo.errorMessage) {
+                        console.log('Mensaje del portal:', afterLoginInfo.errorMessage);
                     }
-                    return { exists: false, siteKey: '' };
-                });
-
-                let captchaSolved = false;
-
-                if (hasCaptcha.exists && hasCaptcha.siteKey) {
-                    console.log('✓ Captcha Turnstile detectado');
-
-                    const currentUrl = page.url();
-                    const captchaSolution = await resolveCaptcha(hasCaptcha.siteKey, currentUrl);
-
-                    if (captchaSolution) {
-                        console.log('\n💉 Inyectando solución del captcha en el formulario...');
 
-                        // Inyectar el token del captcha
-                        await page.evaluate((solution: string) => {
-                            const captchaField = document.querySelector('input[name="cf-turnstile-response"]') as HTMLInputElement | null;
-                            if (captchaField) {
-                                captchaField.value = solution;
-                            }
-                        }, captchaSolution);
-
-                        console.log('✅ Solución del captcha inyectada');
-                        captchaSolved = true;
-
-                        // Esperar un momento para asegurar que se procesó
-                        await page.waitForTimeout(1000);
+                    if (loginSuccess) {
+                        console.log('✅ ¡LOGIN EXITOSO! Has ingresado al sistema');
+                    } else if (captchaRejected) {
+                        console.log('⚠️  Captcha no resuelto. Puede que necesites resolverlo manualmente');
+                    } else if (afterLoginInfo.bodyText.includes('incorrecto') || afterLoginInfo.bodyText.includes('inválido')) {
+                        console.log('❌ Error en los datos ingresados');
                     } else {
-                        console.log('❌ No se pudo resolver el captcha automáticamente');
-                        console.log('⏳ Esperando 10 segundos para resolución manual...');
-                        await page.waitForTimeout(10000);
+                        console.log('⚠️  Estado desconocido. Revisa el screenshot');
                     }
-                } else {
-                    console.log('✓ No hay captcha en esta página');
-                    captchaSolved = true; // No hay captcha, podemos continuar
-                }
 
-                // Tomar screenshot antes de enviar
-                console.log('\n📸 Capturando screenshot antes de enviar...');
-                const beforeSubmitBuffer = await page.screenshot();
-                screenshots.beforeSubmit = beforeSubmitBuffer.toString('base64');
-                console.log('✓ Screenshot capturado en memoria (base64)');
-
-                // Hacer clic en el botón "Entrar"
-                if (captchaSolved || !hasCaptcha.exists) {
-                    console.log('\n🚀 Enviando formulario...');
-                    await page.click('button.btn-primary');
-                    console.log('✓ Formulario enviado');
-                } else {
-                    console.log('\n⚠️  No se enviará el formulario porque el captcha no fue resuelto');
-                    console.log('   El navegador permanecerá abierto para inspección manual');
-                }
+                    // Un token aceptado o rechazado se reporta al proveedor; otros errores no dicen nada del captcha
+                    if (captchaSolution && (captchaAccepted || captchaRejected)) {
+                        await reportCaptchaSolution(captchaSolution, captchaAccepted);
+                    }
 
-                // Esperar a que cargue la siguiente página
-                await page.waitForLoadState('networkidle', { timeout: 30000 }).catch(() => {
-                    console.log('⏱️ Timeout esperando respuesta del servidor');
-                });
+                    if (!captchaRejected || !captchaSolution || retry >= maxCaptchaRetries) {
+                        break;
+                    }
 
-                // Esperar un momento adicional
-                await page.waitForTimeout(3000);
-
-                // Analizar resultado después del login
-                const afterLoginInfo: AfterLoginInfo = await page.evaluate(() => ({
-                    title: document.title,
-                    url: window.location.href,
-                    bodyText: document.body.innerText.substring(0, 500)
-                }));
-
-                console.log('\n--- Resultado después del login ---');
-                console.log('URL:', afterLoginInfo.url);
-                console.log('Título:', afterLoginInfo.title);
-
-                // Verificar si el login fue exitoso
-                const loginSuccess =
-                    afterLoginInfo.url.includes('Dashboard') ||
-                    afterLoginInfo.url.includes('Home') ||
-                    afterLoginInfo.bodyText.includes('Bienvenido') ||
-                    afterLoginInfo.bodyText.includes('Menú Principal') ||
-                    !afterLoginInfo.url.includes('Login');
-
-                if (loginSuccess) {
-                    console.log('✅ ¡LOGIN EXITOSO! Has ingresado al sistema');
-                } else if (afterLoginInfo.bodyText.includes('captcha') || afterLoginInfo.bodyText.includes('Turnstile')) {
-                    console.log('⚠️  Captcha no resuelto. Puede que necesites resolverlo manualmente');
-                } else if (afterLoginInfo.bodyText.includes('incorrecto') || afterLoginInfo.bodyText.includes('inválido')) {
-                    console.log('❌ Error en los datos ingresados');
-                } else {
-                    console.log('⚠️  Estado desconocido. Revisa el screenshot');
+                    console.log(`\n🔁 La DIAN rechazó el captcha; se resuelve de nuevo (reintento ${retry + 1} de ${maxCaptchaRetries})`);
+                    await page.goto(loginUrl, {
+                        waitUntil: 'domcontentloaded',
+                        timeout: 60000
+                    });
+                    await page.waitForTimeout(2000);
                 }
 
             } catch (error: unknown) {
+                // Sin presupuesto, saldo o API key de captcha no tiene sentido seguir esperando el login
+                if (isFatalCaptchaError(error)) {
+                    throw error;
+                }
                 const errorMessage = error instanceof Error ? error.message : String(error);
                 console.log('❌ Error llenando el formulario:', errorMessage);
             }
@@ -478,66 +597,34 @@ export async function handle(payload: Payload): Promise<HandleResult> {
             console.log('   - Revisa el screenshot para más detalles');
         }
 
-        // ============================================
-        // PASO 9: Tomar screenshot final
-        // ============================================
-        console.log('\n📸 Capturando screenshot final...');
-        const finalBuffer = await page.screenshot({ fullPage: true });
-        screenshots.final = finalBuffer.toString('base64');
-        console.log('✓ Screenshot final capturado en memoria (base64)');
-
-        // ============================================
-        // PASO 10: Capturar cookies
-        // ============================================
-        console.log('\n🍪 Capturando cookies...');
-        const cookies = await context.cookies();
-        console.log(`✓ ${cookies.length} cookies capturadas`);
-        
-        // Log de las cookies para debugging
-        cookies.forEach(cookie => {
-            console.log(`   - ${cookie.name}: ${cookie.value.substring(0, 50)}${cookie.value.length > 50 ? '...' : ''}`);
-        });
-
-        // ============================================
-        // PASO 11: Esperar para inspección (si no es headless)
-        // ============================================
-        if (!CONFIG.headless) {
-            console.log('\n👀 El navegador permanecerá abierto por 60 segundos...');
-            console.log('   Presiona Ctrl+C para cerrar antes');
-            await new Promise(resolve => setTimeout(resolve, 60000));
-        }
-
         return {
-            success: true,
-            certificateAccepted: hasLoginForm,
-            formFilled: hasLoginForm,
-            pageInfo: pageInfo,
-            screenshots: screenshots,
-            cookies: cookies
+            browser,
+            context,
+            page,
+            headless: CONFIG.headless,
+            hasLoginForm,
+            loginSuccess,
+            pageInfo,
+            screenshots,
+            certificate: inspection,
+            identification
         };
-
     } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        const errorStack = error instanceof Error ? error.stack : undefined;
-        
-        console.error('\n❌ Error:', errorMessage);
-        if (errorStack) {
-            console.error(errorStack);
-        }
-
-        return {
-            success: false,
-            error: errorMessage
-        };
-
-    } finally {
-        // Limpiar
         if (context) {
-            await context.close();
+            await context.close().catch(() => undefined);
         }
         if (browser) {
-            await browser.close();
-            console.log('\n✓ Navegador cerrado');
+            await getBrowserLauncher().release(browser);
         }
+        throw error;
     }
+}
+
+/**
+ * Cierra el contexto de una sesión abierta con openCertificateSession y devuelve el navegador al launcher
+ */
+export async function closeCertificateSession(session: CertificateSession): Promise<void> {
+    await session.context.close().catch(err => console.warn('⚠️  Error cerrando el contexto:', err));
+    await getBrowserLauncher().release(session.browser);
+    console.log('\n✓ Sesión cerrada');
 }
\ No newline at end of file
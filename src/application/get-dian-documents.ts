@@ -0,0 +1,333 @@
+import type { Page } from 'playwright-core';
+import type { DianDocument, DianDocumentsPayload, DianDocumentsResult } from '../domain/dian/interfaces';
+import { createDianError, getDianErrorCode } from '../domain/dian/errors';
+import { openCertificateSession, closeCertificateSession, CertificateSession } from './get-dian-cookie-by-certificate';
+
+const CONFIG = {
+    urls: {
+        received: 'https://catalogo-vpfe.dian.gov.co/Document/Received',
+        issued: 'https://catalogo-vpfe.dian.gov.co/Document/Sent'
+    },
+    selectors: {
+        startDate: '#StartDate',
+        endDate: '#EndDate',
+        searchButton: '#btnSearch, button[type="submit"].btn-primary',
+        table: '#tableDocuments',
+        headers: '#tableDocuments thead th',
+        rows: '#tableDocuments tbody tr',
+        nextButton: '#tableDocuments_next:not(.disabled) a, .paginate_button.next:not(.disabled) a, a.page-link[aria-label="Next"]'
+    },
+    defaultMaxPages: 50,
+    timeouts: {
+        navigation: 60000,
+        table: 30000
+    }
+} as const;
+
+// Columnas del portal (encabezados sin tildes, en minúscula) y el campo que alimentan.
+// El orden importa: "nit emisor" debe evaluarse antes que "emisor".
+const COLUMN_PATTERNS: Array<{ field: keyof DianDocument; pattern: RegExp }> = [
+    { field: 'cufe', pattern: /cufe|cude/ },
+    { field: 'issuerNit', pattern: /nit.*emisor|emisor.*nit/ },
+    { field: 'receiverNit', pattern: /nit.*receptor|receptor.*nit/ },
+    { field: 'issuerName', pattern: /emisor/ },
+    { field: 'receiverName', pattern: /receptor/ },
+    { field: 'documentType', pattern: /^tipo/ },
+    { field: 'prefix', pattern: /prefijo/ },
+    { field: 'number', pattern: /^(no\.?|numero|folio|consecutivo)/ },
+    { field: 'date', pattern: /fecha/ },
+    { field: 'total', pattern: /total|valor/ },
+    { field: 'status', pattern: /estado|resultado/ },
+];
+
+const CSV_COLUMNS: Array<keyof DianDocument> = [
+    'cufe', 'documentType', 'prefix', 'number', 'issuerNit', 'issuerName',
+    'receiverNit', 'receiverName', 'date', 'total', 'status'
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface RawRow {
+    cells: string[];
+    trackId: string | null;
+}
+
+export async function handle(payload: DianDocumentsPayload): Promise<DianDocumentsResult> {
+    let session: CertificateSession | null = null;
+
+    try {
+        validatePayload(payload);
+
+        console.log('=== Consulta de documentos DIAN ===');
+        console.log(`Dirección: ${payload.direction} | Rango: ${payload.startDate} a ${payload.endDate}`);
+
+        session = await openCertificateSession(payload);
+
+        if (!session.loginSuccess) {
+            throw createDianError('No fue posible iniciar sesión en la DIAN con el certificado.');
+        }
+
+        const documents = await searchDocuments(session.page, payload);
+        console.log(`✅ ${documents.length} documentos encontrados`);
+
+        const result: DianDocumentsResult = {
+            success: true,
+            nit: session.identification.number,
+            dv: session.identification.dv,
+            direction: payload.direction,
+            startDate: payload.startDate,
+            endDate: payload.endDate,
+            total: documents.length,
+            documents
+        };
+
+        if (payload.format === 'csv') {
+            result.csv = toCsv(documents);
+        }
+
+        return result;
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const errorCode = getDianErrorCode(error);
+        console.error('❌ Error consultando documentos DIAN:', errorCode, errorMessage);
+
+        return {
+            success: false,
+            direction: payload.direction,
+            startDate: payload.startDate,
+            endDate: payload.endDate,
+            error: errorMessage,
+            errorCode
+        };
+    } finally {
+        if (session) {
+            await closeCertificateSession(session);
+        }
+    }
+}
+
+function validatePayload(payload: DianDocumentsPayload): void {
+    const missingFields: string[] = [];
+
+    if (!payload.base64CertificateP12) missingFields.push('base64CertificateP12');
+    if (!payload.certificatePassword) missingFields.push('certificatePassword');
+    if (!payload.startDate) missingFields.push('startDate');
+    if (!payload.endDate) missingFields.push('endDate');
+    if (!payload.direction) missingFields.push('direction');
+
+    if (missingFields.length) {
+        throw createDianError(`Faltan campos requeridos: ${missingFields.join(', ')}`, 'VALIDATION_ERROR');
+    }
+
+    if (payload.direction !== 'received' && payload.direction !== 'issued') {
+        throw createDianError('direction debe ser "received" o "issued"', 'VALIDATION_ERROR');
+    }
+
+    if (!DATE_PATTERN.test(payload.startDate) || !DATE_PATTERN.test(payload.endDate)) {
+        throw createDianError('startDate y endDate deben tener formato YYYY-MM-DD', 'VALIDATION_ERROR');
+    }
+
+    const invalidDates = [payload.startDate, payload.endDate].filter(date => !isCalendarDate(date));
+    if (invalidDates.length) {
+        throw createDianError(`Fecha inexistente: ${invalidDates.join(', ')}`, 'VALIDATION_ERROR');
+    }
+
+    if (payload.startDate > payload.endDate) {
+        throw createDianError('startDate no puede ser posterior a endDate', 'VALIDATION_ERROR');
+    }
+
+    if (payload.format && payload.format !== 'json' && payload.format !== 'csv') {
+        throw createDianError('format debe ser "json" o "csv"', 'VALIDATION_ERROR');
+    }
+
+    if (payload.maxPages !== undefined && (!Number.isInteger(payload.maxPages) || payload.maxPages < 1)) {
+        throw createDianError('maxPages debe ser un entero mayor o igual a 1', 'VALIDATION_ERROR');
+    }
+}
+
+/**
+ * El patrón solo revisa el formato: "2024-13-45" o "2025-02-30" no existen en el calendario
+ */
+function isCalendarDate(value: string): boolean {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Abre el listado de documentos, aplica el rango de fechas y recorre todas las páginas
+ */
+async function searchDocuments(page: Page, payload: DianDocumentsPayload): Promise<DianDocument[]> {
+    const url = CONFIG.urls[payload.direction];
+    const maxPages = payload.maxPages ?? CONFIG.defaultMaxPages;
+
+    console.log('🌐 Abriendo', url);
+    await page.goto(url, { waitUntil: 'networkidle', timeout: CONFIG.timeouts.navigation });
+
+    await page.fill(CONFIG.selectors.startDate, payload.startDate);
+    await page.fill(CONFIG.selectors.endDate, payload.endDate);
+
+    console.log('🔎 Buscando documentos...');
+    await page.click(CONFIG.selectors.searchButton);
+    await page.waitForLoadState('networkidle', { timeout: CONFIG.timeouts.table }).catch(() => {
+        console.log('⏱️ Timeout esperando la respuesta de la búsqueda');
+    });
+    await page.waitForSelector(CONFIG.selectors.table, { timeout: CONFIG.timeouts.table });
+
+    const headers = await page.$$eval(CONFIG.selectors.headers, cells =>
+        cells.map(cell => (cell.textContent ?? '').trim())
+    );
+    const columns = mapColumns(headers);
+
+    const documents: DianDocument[] = [];
+    const seen = new Set<string>();
+
+    for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+        const rawRows = await readRows(page);
+        let added = 0;
+
+        for (const rawRow of rawRows) {
+            const document = toDocument(rawRow, columns);
+            if (!document || seen.has(document.cufe)) {
+                continue;
+            }
+            seen.add(document.cufe);
+            documents.push(document);
+            added++;
+        }
+
+        console.log(`📄 Página ${pageNumber}: ${added} documentos`);
+
+        const nextButton = await page.$(CONFIG.selectors.nextButton);
+        if (!nextButton || added === 0) {
+            break;
+        }
+
+        if (pageNumber === maxPages) {
+            console.warn(`⚠️  Se alcanzó el máximo de ${maxPages} páginas; el resultado puede estar incompleto`);
+            break;
+        }
+
+        const firstRow = rawRows[0]?.cells.join('|') ?? '';
+        await nextButton.click();
+        await waitForPageChange(page, firstRow);
+    }
+
+    return documents;
+}
+
+async function readRows(page: Page): Promise<RawRow[]> {
+    return page.$$eval(CONFIG.selectors.rows, rows => rows.map(row => {
+        const cells = Array.from(row.querySelectorAll('td')).map(cell => (cell.textContent ?? '').replace(/\s+/g, ' ').trim());
+        const link = row.querySelector<HTMLAnchorElement>('a[href*="trackId="]');
+        const trackId = link ? new URL(link.href, window.location.href).searchParams.get('trackId') : row.getAttribute('data-id');
+        return { cells, trackId };
+    }));
+}
+
+/**
+ * Espera a que la tabla muestre una página distinta a la anterior
+ */
+async function waitForPageChange(page: Page, previousFirstRow: string): Promise<void> {
+    await page.waitForFunction(
+        ({ selector, previous }) => {
+            const row = document.querySelector(selector);
+            const current = row
+                ? Array.from(row.querySelectorAll('td')).map(cell => (cell.textContent ?? '').replace(/\s+/g, ' ').trim()).join('|')
+                : '';
+            return current !== '' && current !== previous;
+        },
+        { selector: CONFIG.selectors.rows, previous: previousFirstRow },
+        { timeout: CONFIG.timeouts.table }
+    ).catch(() => {
+        console.log('⏱️ Timeout esperando la siguiente página');
+    });
+}
+
+function mapColumns(headers: string[]): Partial<Record<keyof DianDocument, number>> {
+    const columns: Partial<Record<keyof DianDocument, number>> = {};
+
+    headers.forEach((header, index) => {
+        const normalized = header.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+        const match = COLUMN_PATTERNS.find(({ field, pattern }) => columns[field] === undefined && pattern.test(normalized));
+        if (match) {
+            columns[match.field] = index;
+        }
+    });
+
+    return columns;
+}
+
+function toDocument(rawRow: RawRow, columns: Partial<Record<keyof DianDocument, number>>): DianDocument | null {
+    const cell = (field: keyof DianDocument): string | undefined => {
+        const index = columns[field];
+        const value = index !== undefined ? rawRow.cells[index] : undefined;
+        return value ? value : undefined;
+    };
+
+    const cufe = cell('cufe') ?? rawRow.trackId ?? undefined;
+    if (!cufe) {
+        // Filas sin CUFE: mensaje de "sin resultados" o filas de detalle
+        return null;
+    }
+
+    const total = cell('total');
+
+    return {
+        cufe,
+        documentType: cell('documentType'),
+        prefix: cell('prefix'),
+        number: cell('number'),
+        issuerNit: cell('issuerNit'),
+        issuerName: cell('issuerName'),
+        receiverNit: cell('receiverNit'),
+        receiverName: cell('receiverName'),
+        date: cell('date'),
+        total: total !== undefined ? parseAmount(total) : undefined,
+        status: cell('status')
+    };
+}
+
+/**
+ * Convierte montos con formato colombiano ("$ 1.234.567,89") a número
+ */
+function parseAmount(value: string): number | undefined {
+    const cleaned = value.replace(/[^\d,.-]/g, '');
+    if (!cleaned) {
+        return undefined;
+    }
+
+    const lastComma = cleaned.lastIndexOf(',');
+    const lastDot = cleaned.lastIndexOf('.');
+
+    let normalized: string;
+    if (lastComma > lastDot) {
+        // 1.234.567,89
+        normalized = cleaned.replace(/\./g, '').replace(',', '.');
+    } else if (lastComma !== -1) {
+        // 1,234,567.89
+        normalized = cleaned.replace(/,/g, '');
+    } else {
+        // 1.234.567 (los pesos rara vez llevan tres decimales)
+        normalized = cleaned.replace(/\.(?=\d{3}(\.|$))/g, '');
+    }
+
+    const amount = Number(normalized);
+    return Number.isFinite(amount) ? amount : undefined;
+}
+
+function toCsv(documents: DianDocument[]): string {
+    const escape = (value: unknown): string => {
+        if (value === undefined || value === null) {
+            return '';
+        }
+        const text = String(value);
+        return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = [CSV_COLUMNS.join(',')];
+    for (const document of documents) {
+        lines.push(CSV_COLUMNS.map(column => escape(document[column])).join(','));
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,245 @@
+/**
+ * Consulta varias identificaciones en el RUES con un solo navegador.
+ * Cada identificación usa su propia página del mismo contexto y un error no detiene el lote.
+ */
+
+import { Browser, BrowserContext } from 'playwright-core';
+import { RuesBatchPayload, RuesBatchResult, RuesBatchItem, RuesBatchStatus, RuesResult } from '../domain/rues/interfaces';
+import { hasTimeForRetry, isRetryableWithProxy, resolveSearch, searchInContext, searchInNewContext, RuesSearch } from './get-rues-data';
+import { getProxyPool, withProxyRetry, isProxyError, ProxyConfig } from '../infrastructure/config/proxies';
+import { getBrowserLauncher } from '../infrastructure/browser/launcher';
+import { remainingMs } from '../infrastructure/utils/deadline';
+import { normalizeNit } from '../infrastructure/utils/identification';
+
+const CONFIG = {
+    defaultConcurrency: 3,
+    maxConcurrency: 5,
+    maxIdentifications: 500,
+    // No se empieza una identificación con menos tiempo que esto: cubre el timeout de 120 s de una consulta
+    minRemainingMs: 150000
+};
+
+/**
+ * @param deadline momento (epoch en ms) en que Lambda corta la invocación. Las identificaciones
+ * que no alcanzan a empezar antes del margen quedan como SKIPPED en lugar de perder todo el lote.
+ */
+export async function handle(payload: RuesBatchPayload, deadline?: number): Promise<RuesBatchResult> {
+    const launcher = getBrowserLauncher();
+    let browser: Browser | null = null;
+    let context: BrowserContext | null = null;
+
+    const identifications = normalizeIdentifications(payload.identifications);
+    const concurrency = Math.min(
+        normalizeConcurrency(payload.concurrency),
+        identifications.length
+    );
+
+    console.log('=== Consulta RUES por lote ===\n');
+    console.log(`📋 ${identifications.length} identificaciones | Concurrencia: ${concurrency}`);
+
+    try {
+        browser = await launcher.acquire({ headless: payload.headless ?? true });
+
+        // El contexto compartido usa un solo proxy (si rues está en PROXY_SCOPES)
+        const proxy = await getProxyPool().acquire('rues');
+        context = await launcher.newContext(browser, { proxy });
+        const target: LookupTarget = { browser, context, proxy };
+
+        const results: RuesBatchItem[] = new Array(identifications.length);
+        let nextIndex = 0;
+
+        // Cada worker toma la siguiente identificación pendiente hasta vaciar la cola o quedarse sin tiempo
+        const worker = async (workerId: number) => {
+            while (nextIndex < identifications.length) {
+                if (remainingMs(deadline) < CONFIG.minRemainingMs) {
+                    return;
+                }
+
+                const index = nextIndex++;
+                const identificationNumber = identifications[index];
+                console.log(`\n🔎 [${workerId}] ${index + 1}/${identifications.length}: ${identificationNumber}`);
+                results[index] = await lookup(target, identificationNumber, payload, deadline);
+                console.log(`   [${workerId}] ${identificationNumber}: ${results[index].status}`);
+            }
+        };
+
+        await Promise.all(Array.from({ length: concurrency }, (_, i) => worker(i + 1)));
+
+        for (let index = nextIndex; index < identifications.length; index++) {
+            results[index] = {
+                identificationNumber: identifications[index],
+                status: 'SKIPPED',
+                error: 'No alcanzó a consultarse antes del límite de tiempo de la invocación.',
+                durationMs: 0
+            };
+        }
+
+        const found = results.filter(item => item.status === 'FOUND').length;
+        const notFound = results.filter(item => item.status === 'NOT_FOUND').length;
+        const skipped = results.filter(item => item.status === 'SKIPPED').length;
+
+        if (skipped > 0) {
+            console.warn(`⏱️  ${skipped} identificación(es) sin consultar por falta de tiempo`);
+        }
+        console.log(`\n✓ Lote terminado: ${found} encontrados, ${notFound} no encontrados, ${results.length - found - notFound - skipped} con error`);
+
+        return {
+            success: true,
+            total: results.length,
+            found,
+            notFound,
+            failed: results.length - found - notFound - skipped,
+            skipped,
+            results
+        };
+    } finally {
+        if (context) {
+            try {
+                await context.close();
+            } catch (error) {
+                console.warn('⚠️  Error cerrando el contexto:', error);
+            }
+        }
+
+        if (browser) {
+            await launcher.release(browser);
+        }
+    }
+}
+
+interface LookupTarget {
+    browser: Browser;
+    context: BrowserContext;
+    proxy: ProxyConfig | null;
+}
+
+/**
+ * Consulta una identificación y convierte cualquier error en el estado del ítem
+ */
+async function lookup(target: LookupTarget, identificationNumber: string, payload: RuesBatchPayload, deadline?: number): Promise<RuesBatchItem> {
+    const startTime = Date.now();
+
+    try {
+        const search = resolveSearch({ identificationNumber, mode: payload.mode, recordTypes: payload.recordTypes });
+        const result = await searchWithFailover(target, search, deadline);
+
+        return {
+            identificationNumber,
+            status: 'FOUND',
+            nit: result.nit,
+            dv: result.dv,
+            data: result.data,
+            coincidencias: result.coincidencias,
+            durationMs: Date.now() - startTime
+        };
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const code = (error as any)?.code;
+        const status: RuesBatchStatus = ['NOT_FOUND', 'API_ERROR', 'VALIDATION_ERROR'].includes(code) ? code : 'UNKNOWN_ERROR';
+
+        return {
+            identificationNumber,
+            status,
+            error: errorMessage,
+            durationMs: Date.now() - startTime
+        };
+    }
+}
+
+/**
+ * Busca en el contexto compartido. Si falla por su proxy, repite la búsqueda
+ * en un contexto propio con otro proxy sin afectar al resto del lote,
+ * siempre que quede tiempo de la invocación para otra consulta.
+ */
+async function searchWithFailover(target: LookupTarget, search: RuesSearch, deadline?: number): Promise<RuesResult> {
+    const { browser, context, proxy } = target;
+    const pool = getProxyPool();
+    const startTime = Date.now();
+
+    try {
+        const result = await searchInContext(context, search);
+        if (proxy) {
+            pool.reportSuccess(proxy, Date.now() - startTime);
+        }
+        return result;
+    } catch (error: unknown) {
+        if (!proxy || !isRetryableWithProxy(error)) {
+            throw error;
+        }
+
+        // Un timeout o la API sin respuesta no prueban que el proxy falló
+        if (isProxyError(error)) {
+            pool.reportFailure(proxy, error);
+        }
+
+        if (!hasTimeForRetry(deadline)) {
+            throw error;
+        }
+
+        console.warn(`🔁 Falla con el proxy ${proxy.server}; reintentando ${search.query} con otro proxy`);
+
+        return withProxyRetry('rues', retryProxy => searchInNewContext(browser, search, retryProxy ?? undefined), {
+            retryOn: isRetryableWithProxy,
+            exclude: [proxy.server],
+            canRetry: () => hasTimeForRetry(deadline)
+        });
+    }
+}
+
+function normalizeConcurrency(concurrency: unknown): number {
+    if (concurrency === undefined) {
+        return CONFIG.defaultConcurrency;
+    }
+
+    if (typeof concurrency !== 'number' || !Number.isInteger(concurrency) || concurrency < 1 || concurrency > CONFIG.maxConcurrency) {
+        const error = new Error(`concurrency debe ser un entero entre 1 y ${CONFIG.maxConcurrency}.`);
+        (error as any).code = 'VALIDATION_ERROR';
+        throw error;
+    }
+
+    return concurrency;
+}
+
+function normalizeIdentifications(identifications: unknown): string[] {
+    if (!Array.isArray(identifications) || identifications.length === 0) {
+        const error = new Error('identifications debe ser una lista con al menos una identificación.');
+        (error as any).code = 'VALIDATION_ERROR';
+        throw error;
+    }
+
+    // "900123456" y "900.123.456-8" son la misma empresa: se consulta una vez, con el primer valor recibido.
+    // Un valor que no es NIT se compara tal cual y responde VALIDATION_ERROR en su ítem
+    const byNit = new Map<string, string>();
+    identifications
+        .map(identification => String(identification ?? '').trim())
+        .filter(Boolean)
+        .forEach(identification => {
+            const key = nitKey(identification);
+            if (!byNit.has(key)) {
+                byNit.set(key, identification);
+            }
+        });
+    const normalized = Array.from(byNit.values());
+
+    if (normalized.length === 0) {
+        const error = new Error('identifications no contiene valores válidos.');
+        (error as any).code = 'VALIDATION_ERROR';
+        throw error;
+    }
+
+    if (normalized.length > CONFIG.maxIdentifications) {
+        const error = new Error(`Se permiten máximo ${CONFIG.maxIdentifications} identificaciones por lote.`);
+        (error as any).code = 'VALIDATION_ERROR';
+        throw error;
+    }
+
+    return normalized;
+}
+
+function nitKey(identification: string): string {
+    try {
+        return normalizeNit(identification).nit;
+    } catch {
+        return identification;
+    }
+}
@@ -3,16 +3,19 @@
  * Uso de playwright-core en lugar de puppeteer para compatibilidad con AWS Lambda
  */
 
-import { chromium, Browser, BrowserContext, Page } from 'playwright-core';
-import { RuesPayload, RuesResult, RuesData } from '../domain/rues/interfaces';
-import { getNextProxy } from '../infrastructure/config/proxies';
-
-// Detectar si estamos en Lambda
-const isLambda = !!process.env.AWS_LAMBDA_FUNCTION_NAME;
-
-// Importar @sparticuz/chromium solo si estamos en Lambda
-// eslint-disable-next-line @typescript-eslint/no-var-requires
-const chromiumPkg = isLambda ? require('@sparticuz/chromium') : null;
+import { Browser, BrowserContext, Page } from 'playwright-core';
+import { RuesPayload, RuesResult, RuesData, RuesCoincidencia, RuesEstablecimiento, RuesRecordType } from '../domain/rues/interfaces';
+import { withProxyRetry, isProxyError, ProxyConfig } from '../infrastructure/config/proxies';
+import { companyNameSimilarity } from '../infrastructure/utils/similarity';
+import { normalizeNit, NormalizedNit } from '../infrastructure/utils/identification';
+import { captureRuesApi, mapSearchResponse, mapDetailResponse, RuesApiCapture } from '../infrastructure/rues/rues-api';
+import { parseGeneralInfo } from '../infrastructure/rues/general-info';
+import { parseRepresentatives } from '../infrastructure/rues/representatives';
+import { enrichEconomicActivities } from '../infrastructure/ciiu/ciiu';
+import { assessRenewalCompliance } from '../domain/rues/compliance';
+import { getRuesCache, RuesCache } from '../infrastructure/cache/rues-cache';
+import { getBrowserLauncher } from '../infrastructure/browser/launcher';
+import { remainingMs } from '../infrastructure/utils/deadline';
 
 // ============================================
 // CONFIGURACIÓN
@@ -24,7 +27,7 @@ const CONFIG = {
         "RM", // "Registro Mercantil",
         "ESAL", //"Entidades sin animo de lucro",
         "ESOL", //"Registro de entidades de economia solidaria",
-    ],
+    ] as RuesRecordType[],
     mapRecords: {
         RM: "Registro Mercantil",
         ESAL: "Entidades sin animo de lucro",
@@ -48,45 +51,136 @@ const CONFIG = {
         }
     },
     maxTries: 3,
+    // Tiempo de una consulta completa: un reintento con otro proxy, o una consulta propia después
+    // de esperar a otra invocación, solo empiezan si queda al menos esto de la invocación
+    minQueryRemainingMs: 130000,
     timeouts: {
         defaultTimeout: 120000,
         waitBetweenActions: 1000,
-        waitForTab: 10000
+        waitForTab: 10000,
+        apiResponse: 60000,
+        cachePoll: 2000
     }
 };
 
+// Scrapes en curso en este contenedor, por clave de caché
+const inFlight = new Map<string, Promise<RuesResult>>();
+
+export interface SearchOptions {
+    mode: 'detail' | 'matches';
+    // Razón social buscada; si viene, las coincidencias se ordenan por similitud
+    companyName?: string;
+    camaraComercio?: string;
+    matricula?: string;
+    // Tipos de registro a consultar, en orden de prioridad
+    recordTypes: RuesRecordType[];
+    // Sin valor se busca un tipo de registro tras otro en la misma página
+    parallel?: 'first' | 'all';
+}
+
+interface SearchResult {
+    data?: RuesData;
+    registros?: RuesData[];
+    coincidencias: RuesCoincidencia[];
+    source: 'api' | 'dom';
+}
+
+/**
+ * Lo encontrado en un tipo de registro
+ */
+interface RecordTypeOutcome {
+    recordType: RuesRecordType;
+    // false si la búsqueda no terminó (API caída o timeout)
+    responded: boolean;
+    coincidencias: RuesCoincidencia[];
+    data?: RuesData;
+    source?: 'api' | 'dom';
+    // true si hubo tarjetas pero ninguna cumplió los filtros de cámara/matrícula
+    filteredOut: boolean;
+}
+
+interface SubmitResult {
+    // true si la búsqueda terminó (con o sin resultados)
+    responded: boolean;
+    // JSON de la API de RUES si se capturó la respuesta
+    apiJson: unknown | null;
+}
+
+/**
+ * Búsqueda ya validada: texto a escribir en RUES y opciones
+ */
+export interface RuesSearch {
+    query: string;
+    options: SearchOptions;
+    // NIT y DV normalizados cuando se busca por identificación
+    identification?: NormalizedNit;
+}
+
 // ============================================
 // FUNCIÓN PRINCIPAL
 // ============================================
 
-export async function handle(payload: RuesPayload): Promise<RuesResult> {
-    let browser: Browser | null = null;
-    let context: BrowserContext | null = null;
-    let page: Page | null = null;
+/**
+ * @param deadline momento (epoch en ms) en que Lambda corta la invocación; limita los reintentos
+ * con otro proxy y la espera por una consulta en curso en otra invocación
+ */
+export async function handle(payload: RuesPayload, deadline?: number): Promise<RuesResult> {
+    console.log('=== Consulta RUES con Playwright ===\n');
+    console.log('Identificación:', payload.identificationNumber ?? '-');
+    console.log('Razón social:', payload.companyName ?? '-');
 
-    try {
-        console.log('=== Consulta RUES con Playwright ===\n');
-        console.log('Identificación:', payload.identificationNumber);
+    // Validar entrada antes de consultar el caché o lanzar el navegador
+    const search = resolveSearch(payload);
+    const cache = resolveCache();
+
+    if (!cache) {
+        return scrape(payload, search, deadline);
+    }
+
+    const key = buildCacheKey(search);
 
-        // Validar entrada
-        if (!payload.identificationNumber) {
-            throw new Error('La identificación es requerida.');
+    if (!payload.forceRefresh) {
+        const cached = await readCache(cache, key);
+        if (cached) {
+            console.log(`✓ Resultado desde caché (consultado ${cached.cachedAt})`);
+            return cached;
         }
+    }
 
-        // Inicializar navegador
-        browser = await initializeBrowser(payload.headless ?? true);
-        context = await browser.newContext();
-        page = await setupPage(context);
+    // Las solicitudes simultáneas por la misma búsqueda comparten un solo scrape
+    const running = inFlight.get(key);
+    if (running) {
+        console.log('🔗 Ya hay una consulta en curso para esta búsqueda; esperando su resultado');
+        return running;
+    }
+
+    const promise = scrapeAndCache(cache, key, payload, search, deadline).finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
 
-        // Buscar por identificación
-        const result = await searchByIdentification(page, payload.identificationNumber);
+    return promise;
+}
+
+/**
+ * Lanza el navegador y consulta RUES sin pasar por el caché
+ */
+async function scrape(payload: RuesPayload, search: RuesSearch, deadline?: number): Promise<RuesResult> {
+    const launcher = getBrowserLauncher();
+    let browser: Browser | null = null;
+
+    try {
+        // En Lambda se reutiliza el navegador de la invocación anterior si sigue sano
+        browser = await launcher.acquire({ headless: payload.headless ?? true });
+        const activeBrowser = browser;
+
+        // Cada intento usa un contexto nuevo con otro proxy (si rues está en PROXY_SCOPES)
+        const result = await withProxyRetry('rues', proxy => searchInNewContext(activeBrowser, search, proxy ?? undefined), {
+            retryOn: isRetryableWithProxy,
+            canRetry: () => hasTimeForRetry(deadline)
+        });
 
         console.log('✓ Consulta exitosa');
 
-        return {
-            success: true,
-            data: result
-        };
+        return result;
     } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : String(error);
         console.error('Error en consulta RUES:', errorMessage);
@@ -94,96 +188,240 @@ export async function handle(payload: RuesPayload): Promise<RuesResult> {
         // Relanzar el error para que el handler pueda capturar el errorCode
         throw error;
     } finally {
-        if (page) {
-            try {
-                await page.close();
-            } catch (error) {
-                console.warn('⚠️  Error cerrando la página:', error);
-            }
+        if (browser) {
+            await launcher.release(browser);
         }
+    }
+}
 
-        if (context) {
-            try {
-                await context.close();
-            } catch (error) {
-                console.warn('⚠️  Error cerrando el contexto:', error);
-            }
-        }
+/**
+ * Consulta en un contexto propio, opcionalmente detrás de un proxy, y lo cierra al terminar
+ */
+export async function searchInNewContext(browser: Browser, search: RuesSearch, proxy?: ProxyConfig): Promise<RuesResult> {
+    const context = await getBrowserLauncher().newContext(browser, { proxy });
 
-        if (browser) {
-            try {
-                await browser.close();
-            } catch (error) {
-                console.warn('⚠️  Error cerrando el navegador:', error);
-            }
+    try {
+        return await searchInContext(context, search);
+    } finally {
+        try {
+            await context.close();
+        } catch (error) {
+            console.warn('⚠️  Error cerrando el contexto:', error);
         }
     }
 }
 
+/**
+ * La consulta es de solo lectura: además de los errores de red se reintentan
+ * los timeouts y la API de RUES sin respuesta, que suelen venir de un proxy lento
+ */
+export function isRetryableWithProxy(error: unknown): boolean {
+    return isProxyError(error)
+        || (error as any)?.code === 'API_ERROR'
+        || (error instanceof Error && error.name === 'TimeoutError');
+}
+
+/**
+ * Un reintento tras un timeout puede durar otro timeout completo: sin ese margen la invocación
+ * terminaría cortada por Lambda en lugar de devolver el error
+ */
+export function hasTimeForRetry(deadline?: number): boolean {
+    const remaining = remainingMs(deadline);
+    if (remaining < CONFIG.minQueryRemainingMs) {
+        console.warn(`⏱️  No se reintenta con otro proxy: quedan ${Math.round(remaining / 1000)}s de la invocación`);
+        return false;
+    }
+    return true;
+}
+
 // ============================================
-// FUNCIONES AUXILIARES
+// CACHÉ
 // ============================================
 
 /**
- * Inicializa el navegador Playwright
- */
-async function initializeBrowser(headless: boolean): Promise<Browser> {
-    const args = [
-        '--no-sandbox',
-        '--disable-setuid-sandbox',
-        '--disable-dev-shm-usage',
-        '--disable-accelerated-2d-canvas',
-        '--disable-gpu',
-        '--window-size=1920x1080',
-        '--single-process',
-        '--no-zygote',
-        '--disable-web-security',
-        '--disable-features=IsolateOrigins,site-per-process',
-        '--disable-blink-features=AutomationControlled',
-        '--disable-background-timer-throttling',
-        '--disable-backgrounding-occluded-windows',
-        '--disable-renderer-backgrounding',
-        '--disable-ipc-flooding-protection',
-        '--disable-hang-monitor',
-        '--disable-prompt-on-repost',
-        '--disable-sync',
-        '--disable-domain-reliability',
-        '--metrics-recording-only',
-        '--no-first-run',
-        '--safebrowsing-disable-auto-update',
-        '--disable-client-side-phishing-detection',
-        '--disable-default-apps',
-        '--mute-audio',
-        '--hide-scrollbars',
-        '--disable-background-networking',
-        '--disk-cache-size=0',
-    ];
-
-    // Obtener proxy aleatorio
-    //const proxy = getNextProxy();
-    
-    //if (proxy) {
-    //    console.log(`🔄 Usando proxy: ${proxy.server}`);
-    //}
-
-    if (isLambda) {
-        console.log('Ejecutando en AWS Lambda');
-        return chromium.launch({
-            args: chromiumPkg.args.concat(args),
-            executablePath: await chromiumPkg.executablePath(),
-            headless: true,
-            //proxy: proxy || undefined,
-        });
-    } else {
-        console.log('Ejecutando en entorno local');
-        return chromium.launch({
-            headless,
-            args,
-            //proxy: proxy || undefined,
-        });
+ * Hace el scrape y guarda el resultado. Con DynamoDB, si otra invocación ya está
+ * consultando la misma búsqueda se espera su resultado en lugar de repetir el scrape.
+ * La espera termina a tiempo para consultar por cuenta propia antes del `deadline`.
+ * Solo se guardan consultas exitosas; los errores no se cachean.
+ */
+async function scrapeAndCache(cache: RuesCache, key: string, payload: RuesPayload, search: RuesSearch, deadline?: number): Promise<RuesResult> {
+    const waitStartedAt = new Date().toISOString();
+    const waitUntil = Math.min(
+        Date.now() + cache.lockSeconds * 1000,
+        Date.now() + remainingMs(deadline) - CONFIG.minQueryRemainingMs
+    );
+    let locked = await safeCacheCall(() => cache.tryLock(key), true);
+
+    while (!locked && Date.now() < waitUntil) {
+        await sleep(CONFIG.timeouts.cachePoll);
+
+        const entry = await safeCacheCall(() => cache.get(key), null);
+        if (entry && entry.cachedAt >= waitStartedAt) {
+            console.log('✓ Resultado compartido por otra invocación');
+            return { ...entry.result, cachedAt: entry.cachedAt };
+        }
+
+        // Si la otra invocación falló, el bloqueo se libera y esta consulta toma el turno
+        locked = await safeCacheCall(() => cache.tryLock(key), true);
+    }
+
+    if (!locked) {
+        console.warn('⏱️  La otra invocación no terminó a tiempo; se consulta por cuenta propia');
+    }
+
+    try {
+        const result = await scrape(payload, search, deadline);
+        await safeCacheCall(() => cache.set(key, { result, cachedAt: new Date().toISOString() }), undefined);
+        return result;
+    } finally {
+        if (locked) {
+            await safeCacheCall(() => cache.releaseLock(key), undefined);
+        }
+    }
+}
+
+async function readCache(cache: RuesCache, key: string): Promise<RuesResult | null> {
+    const entry = await safeCacheCall(() => cache.get(key), null);
+    return entry ? { ...entry.result, cachedAt: entry.cachedAt } : null;
+}
+
+/**
+ * Un caché mal configurado o caído no debe impedir la consulta
+ */
+function resolveCache(): RuesCache | null {
+    try {
+        return getRuesCache();
+    } catch (error: unknown) {
+        console.warn('⚠️  Caché RUES desactivado:', error instanceof Error ? error.message : error);
+        return null;
+    }
+}
+
+async function safeCacheCall<T>(operation: () => Promise<T>, fallback: T): Promise<T> {
+    try {
+        return await operation();
+    } catch (error: unknown) {
+        console.warn('⚠️  Error en el caché RUES:', error instanceof Error ? error.message : error);
+        return fallback;
+    }
+}
+
+/**
+ * Clave de caché: todo lo que cambia el resultado de la búsqueda
+ */
+function buildCacheKey(search: RuesSearch): string {
+    const { options } = search;
+
+    return [
+        'rues',
+        options.mode,
+        search.query.toLowerCase().replace(/\s+/g, ' '),
+        options.recordTypes.join(','),
+        options.parallel === 'all' ? 'all' : '',
+        options.camaraComercio?.trim().toLowerCase() ?? '',
+        options.matricula?.trim() ?? '',
+    ].join('|');
+}
+
+/**
+ * Valida el payload y decide el modo de búsqueda.
+ * Lanza VALIDATION_ERROR sin necesidad de abrir el navegador.
+ */
+export function resolveSearch(payload: RuesPayload): RuesSearch {
+    // RUES no encuentra el NIT si trae puntos, guiones o el DV
+    const identification = payload.identificationNumber
+        ? normalizeNit(payload.identificationNumber, 'identificationNumber')
+        : undefined;
+
+    const query = (identification?.nit || payload.companyName || '').trim();
+    if (!query) {
+        const error = new Error('La identificación o la razón social es requerida.');
+        (error as any).code = 'VALIDATION_ERROR';
+        throw error;
+    }
+
+    // Por razón social se devuelven candidatos salvo que se elija uno para el detalle
+    const searchByName = !payload.identificationNumber;
+    const mode = payload.mode ?? (searchByName ? 'matches' : 'detail');
+
+    if (searchByName && mode === 'detail' && !payload.matricula) {
+        const error = new Error('Para el detalle por razón social indique la matrícula del candidato (y opcionalmente camaraComercio).');
+        (error as any).code = 'VALIDATION_ERROR';
+        throw error;
+    }
+
+    return {
+        query,
+        identification,
+        options: {
+            mode,
+            companyName: searchByName ? query : undefined,
+            camaraComercio: payload.camaraComercio,
+            matricula: payload.matricula,
+            recordTypes: resolveRecordTypes(payload.recordTypes),
+            parallel: payload.parallel,
+        }
+    };
+}
+
+/**
+ * Lee recordTypes del evento de las lambdas (consulta y lote) como lista o como texto
+ * separado por comas ("ESAL,ESOL"); la validación de cada tipo la hace resolveSearch
+ */
+export function parseRecordTypes(value: unknown): RuesRecordType[] | undefined {
+    if (value === undefined || value === null || value === '') {
+        return undefined;
     }
+
+    const list = Array.isArray(value) ? value : String(value).split(',');
+    return list.map(recordType => String(recordType).trim()).filter(Boolean) as RuesRecordType[];
+}
+
+function resolveRecordTypes(recordTypes?: string[]): RuesRecordType[] {
+    if (recordTypes === undefined) {
+        return CONFIG.recordTypes;
+    }
+
+    const normalized = Array.from(new Set(recordTypes.map(recordType => String(recordType).trim().toUpperCase())));
+    const invalid = normalized.filter(recordType => !CONFIG.recordTypes.includes(recordType as RuesRecordType));
+
+    if (normalized.length === 0 || invalid.length > 0) {
+        const error = new Error(`recordTypes debe contener al menos uno de ${CONFIG.recordTypes.join(', ')}${invalid.length ? ` (inválidos: ${invalid.join(', ')})` : ''}.`);
+        (error as any).code = 'VALIDATION_ERROR';
+        throw error;
+    }
+
+    return normalized as RuesRecordType[];
+}
+
+/**
+ * Ejecuta una búsqueda en páginas nuevas del contexto y las cierra al terminar.
+ * Permite reutilizar el mismo navegador para varias consultas.
+ */
+export async function searchInContext(context: BrowserContext, search: RuesSearch): Promise<RuesResult> {
+    const { query, options } = search;
+
+    // Buscar por identificación o razón social
+    const outcomes = options.parallel && options.recordTypes.length > 1
+        ? await searchInParallel(context, query, options)
+        : await searchSequentially(context, query, options);
+    const result = combineOutcomes(outcomes, query, options);
+
+    return {
+        success: true,
+        nit: search.identification?.nit,
+        dv: search.identification?.dv,
+        data: result.data,
+        registros: result.registros,
+        coincidencias: result.coincidencias,
+        source: result.source
+    };
 }
 
+// ============================================
+// FUNCIONES AUXILIARES
+// ============================================
+
 /**
  * Configura la página de Playwright
  */
@@ -203,48 +441,219 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Busca una entidad por número de identificación
+ * Busca una entidad en los tipos de registro pedidos, uno tras otro en la misma página.
+ * En modo `detail` se detiene en el primer tipo de registro con una tarjeta que detallar.
  */
-async function searchByIdentification(page: Page, identification: string): Promise<RuesData> {
-    let allApisFailed = true;
-    
-    for (const recordType of CONFIG.recordTypes) {
-        console.log(`\n📋 Buscando en: ${CONFIG.mapRecords[recordType as keyof typeof CONFIG.mapRecords]}`);
-        
-        await closeSweetAlertModal(page);
-        await sleep(CONFIG.timeouts.waitBetweenActions);
+async function searchSequentially(context: BrowserContext, query: string, options: SearchOptions): Promise<RecordTypeOutcome[]> {
+    const page = await setupPage(context);
+    const capture = captureRuesApi(page);
+    const outcomes: RecordTypeOutcome[] = [];
 
-        // Seleccionar tipo de registro
-        await selectRecordType(page, recordType);
+    try {
+        for (const recordType of options.recordTypes) {
+            const outcome = await searchRecordType(page, capture, recordType, query, options);
+            outcomes.push(outcome);
 
-        // Ingresar identificación y enviar (retorna true si la API respondió)
-        const apiResponded = await enterIdentificationAndSubmit(page, identification);
-        
-        if (apiResponded) {
-            allApisFailed = false;
-            
-            // Verificar resultados
-            const hasResults = await verifyResults(page);
-
-            if (hasResults) {
-                console.log('✅ Documento encontrado, extrayendo información...');
-                const result = await extractInformation(page);
-                return { ...result, tipo_empresa: CONFIG.mapRecords[recordType as keyof typeof CONFIG.mapRecords] };
-            } else {
-                console.log('ℹ️  No se encontró en este tipo de registro');
+            if (options.mode === 'detail' && outcome.data) {
+                break;
+            }
+        }
+
+        return outcomes;
+    } finally {
+        capture.dispose();
+        await closePage(page);
+    }
+}
+
+/**
+ * Busca en cada tipo de registro en su propia página del mismo contexto.
+ * Con `first` responde con el primer tipo que encuentre la entidad y cierra las demás páginas;
+ * con `all` espera todas las búsquedas.
+ */
+async function searchInParallel(context: BrowserContext, query: string, options: SearchOptions): Promise<RecordTypeOutcome[]> {
+    const running = new Map<RuesRecordType, { page: Page; capture: RuesApiCapture }>();
+    let winner: RuesRecordType | null = null;
+
+    const cancelOthers = async (recordType: RuesRecordType) => {
+        const others = Array.from(running.entries()).filter(([type]) => type !== recordType);
+        console.log(`⏹️  ${CONFIG.mapRecords[recordType]} respondió primero; cancelando ${others.length} búsqueda(s)`);
+        await Promise.all(others.map(async ([, { page, capture }]) => {
+            capture.dispose();
+            await closePage(page);
+        }));
+    };
+
+    const tasks = options.recordTypes.map(async (recordType): Promise<RecordTypeOutcome | null> => {
+        let page: Page | null = null;
+        let capture: RuesApiCapture | null = null;
+
+        try {
+            page = await setupPage(context);
+            capture = captureRuesApi(page);
+
+            if (winner) {
+                return null;
             }
-        } else {
-            console.log('⚠️  La API no respondió para este tipo de registro, continuando...');
+            running.set(recordType, { page, capture });
+
+            const outcome = await searchRecordType(page, capture, recordType, query, options);
+
+            if (options.parallel === 'first' && !winner && isHit(outcome, options)) {
+                winner = recordType;
+                await cancelOthers(recordType);
+            }
+
+            return outcome;
+        } catch (error: unknown) {
+            // Las páginas cerradas al cancelar fallan con "Target closed"
+            if (winner && winner !== recordType) {
+                return null;
+            }
+            throw error;
+        } finally {
+            running.delete(recordType);
+            capture?.dispose();
+            if (page) {
+                await closePage(page);
+            }
+        }
+    });
+
+    const settled = await Promise.allSettled(tasks);
+    const outcomes: RecordTypeOutcome[] = [];
+    const errors: unknown[] = [];
+
+    for (const result of settled) {
+        if (result.status === 'rejected') {
+            errors.push(result.reason);
+        } else if (result.value && (!winner || result.value.recordType === winner)) {
+            outcomes.push(result.value);
         }
     }
 
-    if (allApisFailed) {
-        const error = new Error(`No se pudo consultar el documento ${identification}. La API de RUES no está respondiendo. Por favor intente más tarde.`);
+    // El fallo de un tipo de registro solo importa si ningún otro encontró la entidad
+    if (errors.length > 0 && !outcomes.some(outcome => isHit(outcome, options))) {
+        throw errors[0];
+    }
+
+    return outcomes;
+}
+
+function isHit(outcome: RecordTypeOutcome, options: SearchOptions): boolean {
+    return options.mode === 'detail' ? !!outcome.data : outcome.coincidencias.length > 0;
+}
+
+async function closePage(page: Page): Promise<void> {
+    try {
+        await page.close();
+    } catch (error) {
+        console.warn('⚠️  Error cerrando la página:', error);
+    }
+}
+
+/**
+ * Busca en un tipo de registro. En modo `detail` extrae el detalle de una tarjeta
+ * (la indicada por los filtros o la activa); en modo `matches` solo devuelve las tarjetas.
+ */
+async function searchRecordType(page: Page, capture: RuesApiCapture, recordType: RuesRecordType, query: string, options: SearchOptions): Promise<RecordTypeOutcome> {
+    const tipoEmpresa = CONFIG.mapRecords[recordType];
+    const outcome: RecordTypeOutcome = { recordType, responded: false, coincidencias: [], filteredOut: false };
+    console.log(`\n📋 Buscando en: ${tipoEmpresa}`);
+
+    await closeSweetAlertModal(page);
+    await sleep(CONFIG.timeouts.waitBetweenActions);
+
+    // Seleccionar tipo de registro
+    await selectRecordType(page, recordType);
+
+    // Ingresar identificación y enviar; la respuesta de la API se captura si llega
+    const searchResponse = capture.nextSearch(CONFIG.timeouts.apiResponse);
+    const { responded, apiJson } = await enterIdentificationAndSubmit(page, query, searchResponse);
+
+    if (!responded) {
+        console.log('⚠️  La API no respondió para este tipo de registro, continuando...');
+        return outcome;
+    }
+    outcome.responded = true;
+
+    // Tarjetas desde el JSON de la API; si no se reconoce, desde el DOM
+    const apiCards = apiJson !== null ? mapSearchResponse(apiJson) : null;
+    const source = apiCards ? 'api' : 'dom';
+    const rawCards = apiCards ?? (await verifyResults(page) ? await extractCards(page) : []);
+
+    if (rawCards.length === 0) {
+        console.log('ℹ️  No se encontró en este tipo de registro');
+        return outcome;
+    }
+
+    outcome.source = source;
+    outcome.coincidencias = rawCards.map(card => toCoincidencia(card, tipoEmpresa, options.companyName));
+    console.log(`✅ ${outcome.coincidencias.length} coincidencia(s) en ${tipoEmpresa} (fuente: ${source})`);
+
+    if (options.mode === 'matches') {
+        return outcome;
+    }
+
+    const cardIndex = selectCardIndex(outcome.coincidencias, options);
+    if (cardIndex < 0) {
+        console.log('ℹ️  Ninguna coincidencia cumple los filtros de cámara/matrícula');
+        outcome.filteredOut = true;
+        return outcome;
+    }
+
+    console.log('✅ Documento encontrado, extrayendo información...');
+    outcome.coincidencias[cardIndex].seleccionada = true;
+    const result = await extractInformation(page, capture, rawCards[cardIndex], cardIndex);
+    outcome.data = { ...result, tipo_empresa: tipoEmpresa };
+    outcome.data.cumplimiento = assessRenewalCompliance(outcome.data);
+
+    return outcome;
+}
+
+/**
+ * Arma el resultado a partir de lo encontrado en cada tipo de registro.
+ * Lanza API_ERROR si ninguna búsqueda respondió y NOT_FOUND si no hubo coincidencias.
+ */
+function combineOutcomes(outcomes: RecordTypeOutcome[], query: string, options: SearchOptions): SearchResult {
+    const description = options.companyName ? `Razón social "${query}"` : `Documento ${query}`;
+
+    if (outcomes.length > 0 && outcomes.every(outcome => !outcome.responded)) {
+        const error = new Error(`No se pudo consultar ${description}. La API de RUES no está respondiendo. Por favor intente más tarde.`);
         (error as any).code = 'API_ERROR';
         throw error;
     }
 
-    const error = new Error(`Documento ${identification} no encontrado en ningún tipo de registro (RM, ESAL, ESOL).`);
+    // Se conserva el orden de recordTypes aunque las búsquedas paralelas terminen en otro orden
+    const ordered = options.recordTypes
+        .map(recordType => outcomes.find(outcome => outcome.recordType === recordType))
+        .filter((outcome): outcome is RecordTypeOutcome => !!outcome);
+
+    const coincidencias = ordered.flatMap(outcome => outcome.coincidencias);
+    const sources = new Set(ordered.map(outcome => outcome.source).filter(Boolean));
+    const source = sources.has('dom') ? 'dom' : 'api';
+
+    if (options.mode === 'detail') {
+        const found = ordered.filter(outcome => outcome.data);
+        if (found.length > 0) {
+            return {
+                data: found[0].data,
+                registros: found.length > 1 ? found.map(outcome => outcome.data as RuesData) : undefined,
+                coincidencias,
+                source: found[0].source ?? source
+            };
+        }
+    } else if (coincidencias.length > 0) {
+        if (options.companyName) {
+            coincidencias.sort((a, b) => (b.similitud ?? 0) - (a.similitud ?? 0));
+        }
+        return { coincidencias, source };
+    }
+
+    const filteredOut = ordered.some(outcome => outcome.filteredOut);
+    const error = new Error(filteredOut
+        ? `${description} no tiene coincidencias con la cámara de comercio o matrícula indicadas.`
+        : `${description} no encontrado en ningún tipo de registro (${options.recordTypes.join(', ')}).`);
     (error as any).code = 'NOT_FOUND';
     throw error;
 }
@@ -296,11 +705,11 @@ async function selectRecordType(page: Page, recordType: string): Promise<void> {
 }
 
 /**
- * Ingresa la identificación y envía el formulario
- * Retorna true si la API respondió correctamente (con o sin resultados)
- * Retorna false si hubo timeout o error en la API
+ * Ingresa la identificación y envía el formulario.
+ * Termina en cuanto llega la respuesta de la API de RUES; si no se captura,
+ * espera el ciclo del spinner del botón como antes.
  */
-async function enterIdentificationAndSubmit(page: Page, identification: string): Promise<boolean> {
+async function enterIdentificationAndSubmit(page: Page, identification: string, apiResponse: Promise<unknown | null>): Promise<SubmitResult> {
     await page.waitForSelector(CONFIG.selectors.idInput);
 
     // Limpiar el input
@@ -334,55 +743,76 @@ async function enterIdentificationAndSubmit(page: Page, identification: string):
             }
         });
 
-        console.log('⏳ Esperando que termine la búsqueda (observando spinner del botón)...');
-        
-        // Esperar a que aparezca el spinner dentro del botón (búsqueda iniciada)
-        try {
-            await page.waitForFunction(() => {
-                const buttons = Array.from(document.querySelectorAll('button[type="submit"].btn-busqueda'));
-                for (const button of buttons) {
-                    const style = window.getComputedStyle(button as Element);
-                    if (style.display !== 'none') {
-                        // Buscar el spinner dentro del botón
-                        const spinner = button.querySelector('i.spinner-border');
-                        return spinner !== null;
-                    }
-                }
-                return false;
-            }, { timeout: 3000 });
-            console.log('✓ Búsqueda iniciada (spinner visible)');
-        } catch (error) {
-            console.log('⚠️  No se detectó spinner en el botón (puede ser muy rápido o ya terminó)');
+        const spinnerDone = waitForSearchSpinner(page);
+
+        // La respuesta de la API suele llegar antes de que el spinner desaparezca
+        const apiJson = await Promise.race([apiResponse, spinnerDone.then(() => null)]);
+        if (apiJson !== null) {
+            console.log('✓ Respuesta de la API de RUES capturada');
+            return { responded: true, apiJson };
         }
-        
-        // Ahora esperar a que el spinner desaparezca del botón (búsqueda completada)
-        try {
-            await page.waitForFunction(() => {
-                const buttons = Array.from(document.querySelectorAll('button[type="submit"].btn-busqueda'));
-                for (const button of buttons) {
-                    const style = window.getComputedStyle(button as Element);
-                    if (style.display !== 'none') {
-                        // Verificar que NO haya spinner
-                        const spinner = button.querySelector('i.spinner-border');
-                        return spinner === null;
-                    }
+
+        const completed = await spinnerDone;
+        if (!completed) {
+            return { responded: false, apiJson: null };
+        }
+
+        // Esperar un poco para que el DOM se actualice con los resultados (o a la API si llegó tarde)
+        const lateApiJson = await Promise.race([apiResponse, sleep(2000).then(() => null)]);
+        return { responded: true, apiJson: lateApiJson };
+    }
+    
+    return { responded: false, apiJson: null };
+}
+
+/**
+ * Espera a que el spinner del botón de búsqueda aparezca y desaparezca.
+ * Retorna false si la búsqueda no terminó en 60s.
+ */
+async function waitForSearchSpinner(page: Page): Promise<boolean> {
+    console.log('⏳ Esperando que termine la búsqueda (observando spinner del botón)...');
+    
+    // Esperar a que aparezca el spinner dentro del botón (búsqueda iniciada)
+    try {
+        await page.waitForFunction(() => {
+            const buttons = Array.from(document.querySelectorAll('button[type="submit"].btn-busqueda'));
+            for (const button of buttons) {
+                const style = window.getComputedStyle(button as Element);
+                if (style.display !== 'none') {
+                    // Buscar el spinner dentro del botón
+                    const spinner = button.querySelector('i.spinner-border');
+                    return spinner !== null;
                 }
-                return false;
-            }, { timeout: 60000 });
-            console.log('✓ Búsqueda completada (spinner desapareció)');
-        } catch (error) {
-            console.log('❌ Timeout: El spinner no desapareció después de 60s');
-            await closeSweetAlertModal(page);
+            }
             return false;
-        }
-        
-        // Esperar un poco para que el DOM se actualice con los resultados
-        await sleep(2000);
-        
-        return true;
+        }, { timeout: 3000 });
+        console.log('✓ Búsqueda iniciada (spinner visible)');
+    } catch (error) {
+        console.log('⚠️  No se detectó spinner en el botón (puede ser muy rápido o ya terminó)');
     }
     
-    return false;
+    // Ahora esperar a que el spinner desaparezca del botón (búsqueda completada)
+    try {
+        await page.waitForFunction(() => {
+            const buttons = Array.from(document.querySelectorAll('button[type="submit"].btn-busqueda'));
+            for (const button of buttons) {
+                const style = window.getComputedStyle(button as Element);
+                if (style.display !== 'none') {
+                    // Verificar que NO haya spinner
+                    const spinner = button.querySelector('i.spinner-border');
+                    return spinner === null;
+                }
+            }
+            return false;
+        }, { timeout: 60000 });
+        console.log('✓ Búsqueda completada (spinner desapareció)');
+    } catch (error) {
+        console.log('❌ Timeout: El spinner no desapareció después de 60s');
+        await closeSweetAlertModal(page);
+        return false;
+    }
+
+    return true;
 }
 
 /**
@@ -410,45 +840,66 @@ async function verifyResults(page: Page): Promise<boolean> {
 }
 
 /**
- * Obtiene el índice de la tarjeta con estado "Activa"
+ * Elige la tarjeta a detallar: la que cumpla los filtros de cámara/matrícula o, sin filtros,
+ * la primera "Activa" (si ninguna está activa, la última).
+ * Devuelve -1 si hay filtros y ninguna tarjeta los cumple.
  */
-async function getCardStatusActive(page: Page): Promise<number> {
-    const cardIndex = await page.evaluate((cardResult) => {
-        const cards = Array.from(document.querySelectorAll(cardResult));
+function selectCardIndex(cards: RuesCoincidencia[], options: SearchOptions): number {
+    if (!options.camaraComercio && !options.matricula) {
+        const activeIndex = cards.findIndex(card => (card.estado || '').trim().toLowerCase() === 'activa');
+        return activeIndex >= 0 ? activeIndex : cards.length - 1;
+    }
 
-        // Buscar card con estado "Activa"
-        for (let i = 0; i < cards.length; i++) {
-            const spans = Array.from(cards[i].querySelectorAll('span'));
-            for (const span of spans) {
-                if (span.textContent?.trim() === 'Activa') {
-                    return i;
-                }
-            }
-        }
+    const normalizeText = (value?: string) => (value || '')
+        .toLowerCase()
+        .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    const normalizeNumber = (value?: string) => (value || '').replace(/\D/g, '').replace(/^0+/, '');
 
-        // Si no se encuentra ninguno activo, retorna el índice del último
-        return cards.length > 0 ? cards.length - 1 : -1;
-    }, CONFIG.selectors.results);
+    return cards.findIndex(card => {
+        if (options.camaraComercio && !normalizeText(card.camara_de_comercio).includes(normalizeText(options.camaraComercio))) {
+            return false;
+        }
+        if (options.matricula && normalizeNumber(card.numero_de_matricula) !== normalizeNumber(options.matricula)) {
+            return false;
+        }
+        return true;
+    });
+}
 
-    if (cardIndex < 0) {
-        throw new Error('Card no encontrada');
+/**
+ * Ubica en el DOM la tarjeta elegida. Las tarjetas de la API pueden venir en otro orden,
+ * así que se busca por matrícula; si no aparece se usa la misma posición.
+ */
+async function findDomCardIndex(page: Page, card: Record<string, string>, fallbackIndex: number): Promise<number> {
+    if (!card.numero_de_matricula) {
+        return fallbackIndex;
     }
 
-    return cardIndex;
+    const index = await page.evaluate((args: { resultsSelector: string; matricula: string }) => {
+        const cards = Array.from(document.querySelectorAll(args.resultsSelector));
+        return cards.findIndex(element => {
+            const numbers = (element.textContent || '').match(/\d+/g) || [];
+            return numbers.some(value => value.replace(/^0+/, '') === args.matricula);
+        });
+    }, { resultsSelector: CONFIG.selectors.results, matricula: card.numero_de_matricula.replace(/\D/g, '').replace(/^0+/, '') });
+
+    return index >= 0 ? index : fallbackIndex;
 }
 
 /**
  * Extrae la información de los resultados
  */
-async function extractInformation(page: Page): Promise<RuesData> {
+async function extractInformation(page: Page, capture: RuesApiCapture, basicInfo: Partial<RuesData>, cardIndex: number): Promise<RuesData> {
     await page.waitForSelector(CONFIG.selectors.results);
 
-    // Extraer información básica de la tarjeta de resultados
-    const basicInfo = await extractBasicInfo(page);
-
-    const cardIndex = await getCardStatusActive(page);
+    const domIndex = await findDomCardIndex(page, basicInfo as Record<string, string>, cardIndex);
     const allCards = page.locator(CONFIG.selectors.results);
-    const selectedCard = allCards.nth(cardIndex);
+    const selectedCard = allCards.nth(domIndex);
+
+    // Registrar la espera antes del clic para no perder la respuesta del detalle
+    const detailResponse = capture.nextDetail(CONFIG.timeouts.waitForTab);
     
     // Usar .first() para obtener solo el primer enlace si hay múltiples
     const href = selectedCard.locator(CONFIG.selectors.resultLink).first();
@@ -457,24 +908,32 @@ async function extractInformation(page: Page): Promise<RuesData> {
     // Esperar a que se carguen todas las pestañas
     await waitForDetailTabs(page);
 
-    // Extraer información detallada
+    // Extraer información detallada (DOM) y completar con el JSON de la API si llegó
     const details = await extractDetailedInfo(page);
+    const apiDetails = mapDetailResponse(await detailResponse);
+
+    if (apiDetails) {
+        console.log('✓ Detalle tomado de la API de RUES');
+    }
+
+    const informacionGeneralRaw = { ...details.informacion_general_raw, ...apiDetails?.informacion_general_raw };
 
     return {
         nombre: basicInfo.nombre || '',
         tipo_empresa: '',
         ...basicInfo,
         ...details,
+        informacion_general: parseGeneralInfo(informacionGeneralRaw),
+        informacion_general_raw: informacionGeneralRaw,
+        actividad_economica: enrichEconomicActivities(apiDetails?.actividad_economica?.length ? apiDetails.actividad_economica : details.actividad_economica),
     };
 }
 
 /**
- * Extrae información básica de la tarjeta de resultados
+ * Extrae la información básica de todas las tarjetas de resultados
  */
-async function extractBasicInfo(page: Page): Promise<Partial<RuesData>> {
-    const cardIndex = await getCardStatusActive(page);
-
-    return page.evaluate((args: { resultsSelector: string; cardIndex: number }) => {
+async function extractCards(page: Page): Promise<Array<Record<string, string>>> {
+    return page.evaluate((resultsSelector: string) => {
         // Función para normalizar claves
         function normalizeKey(key: string): string {
             return key.toLowerCase()
@@ -484,35 +943,66 @@ async function extractBasicInfo(page: Page): Promise<Partial<RuesData>> {
                 .replace(/__+/g, '_');
         }
 
-        const result: Record<string, string> = {};
-        const cards = Array.from(document.querySelectorAll(args.resultsSelector));
+        const cards = Array.from(document.querySelectorAll(resultsSelector));
 
         if (cards.length === 0) {
             throw new Error('No se encontró contenedor de resultados');
         }
 
-        const cardResult = cards[args.cardIndex];
+        return cards.map((cardResult: Element) => {
+            const result: Record<string, string> = {};
 
-        // Extraer nombre
-        const nombreElement = cardResult.querySelector('.filtro__titulo');
-        if (nombreElement) {
-            result['nombre'] = nombreElement.textContent || '';
-        }
+            // Extraer nombre
+            const nombreElement = cardResult.querySelector('.filtro__titulo');
+            if (nombreElement) {
+                result['nombre'] = nombreElement.textContent || '';
+            }
 
-        // Extraer otros campos
-        const records = Array.from(cardResult.querySelectorAll('.registroapi'));
-        records.forEach((record: Element) => {
-            const label = record.querySelector('.registroapi__etiqueta');
-            const value = record.querySelector('span');
+            // Extraer otros campos
+            const records = Array.from(cardResult.querySelectorAll('.registroapi'));
+            records.forEach((record: Element) => {
+                const label = record.querySelector('.registroapi__etiqueta');
+                const value = record.querySelector('span');
 
-            if (label && value) {
-                const key = normalizeKey(label.textContent?.trim() || '');
-                result[key] = value.textContent?.trim() || '';
+                if (label && value) {
+                    const key = normalizeKey(label.textContent?.trim() || '');
+                    result[key] = value.textContent?.trim() || '';
+                }
+            });
+
+            // El estado puede venir como etiqueta sin rótulo ("Activa", "Cancelada")
+            if (!result['estado']) {
+                const status = Array.from(cardResult.querySelectorAll('span'))
+                    .map(span => span.textContent?.trim() || '')
+                    .find(text => /^(activa|cancelada|inactiva|liquidada|en liquidaci[oó]n)$/i.test(text));
+                if (status) {
+                    result['estado'] = status;
+                }
             }
+
+            return result;
         });
+    }, CONFIG.selectors.results);
+}
 
-        return result;
-    }, { resultsSelector: CONFIG.selectors.results, cardIndex });
+/**
+ * Convierte una tarjeta de resultados al tipo de dominio
+ */
+function toCoincidencia(card: Record<string, string>, tipoEmpresa: string, companyName?: string): RuesCoincidencia {
+    const nombre = (card.nombre || '').trim();
+
+    return {
+        nombre,
+        tipo_empresa: tipoEmpresa,
+        identificacion: card.identificacion,
+        numero_de_inscripcion: card.numero_de_inscripcion,
+        categoria: card.categoria,
+        camara_de_comercio: card.camara_de_comercio,
+        numero_de_matricula: card.numero_de_matricula,
+        estado: card.estado,
+        similitud: companyName ? companyNameSimilarity(companyName, nombre) : undefined,
+        seleccionada: false,
+    };
 }
 
 /**
@@ -540,7 +1030,7 @@ async function waitForDetailTabs(page: Page): Promise<void> {
 async function extractDetailedInfo(page: Page): Promise<Partial<RuesData>> {
     type Selectors = typeof CONFIG.selectors;
     
-    return page.evaluate(async (args: { selectors: Selectors; maxTries: number }) => {
+    const { establishments, representativeText, ...details } = await page.evaluate(async (args: { selectors: Selectors; maxTries: number }) => {
         const { selectors, maxTries } = args;
         
         // Función para normalizar claves
@@ -615,6 +1105,51 @@ async function extractDetailedInfo(page: Page): Promise<Partial<RuesData>> {
             return [];
         }
 
+        /**
+         * Obtener los establecimientos de comercio. Los campos de todos los establecimientos
+         * vienen seguidos en la pestaña; uno nuevo empieza cuando una etiqueta se repite.
+         */
+        async function getEstablishments(): Promise<Array<Record<string, string>>> {
+            for (let attempt = 1; attempt <= maxTries; attempt++) {
+                const tab = document.querySelector(selectors.tabs.establishments);
+                const records = tab ? Array.from(tab.querySelectorAll('.registroapi')) : [];
+
+                if (records.length > 0) {
+                    const result: Array<Record<string, string>> = [];
+                    let current: Record<string, string> = {};
+
+                    records.forEach((record: Element) => {
+                        const label = record.querySelector('.registroapi__etiqueta');
+                        const value = record.querySelector('.registroapi__valor');
+                        if (!label || !value) {
+                            return;
+                        }
+
+                        const key = normalizeKey(label.textContent?.trim() || '');
+
+                        if (key in current) {
+                            result.push(current);
+                            current = {};
+                        }
+
+                        current[key] = value.textContent?.trim() || '';
+                    });
+
+                    if (Object.keys(current).length > 0) {
+                        result.push(current);
+                    }
+
+                    return result;
+                }
+
+                if (attempt < maxTries) {
+                    await new Promise(resolve => setTimeout(resolve, 3000));
+                }
+            }
+
+            return [];
+        }
+
         // 1. Extraer información general
         const tabGeneralInformation = document.querySelector(selectors.tabs.general);
         const generalInfo = tabGeneralInformation ? getTabInformation(tabGeneralInformation) : {};
@@ -637,11 +1172,60 @@ async function extractDetailedInfo(page: Page): Promise<Partial<RuesData>> {
 
         const tabLegalRepresentative = document.querySelector(selectors.tabs.representative);
         const legalRepresentative = tabLegalRepresentative?.querySelector('.legal')?.textContent || '';
+        // innerText conserva los saltos de línea que separan a cada representante
+        const representativeText = (tabLegalRepresentative?.querySelector<HTMLElement>('.legal') ?? tabLegalRepresentative as HTMLElement | null)?.innerText || '';
+
+        // 4. Extraer establecimientos de comercio
+        const establishmentsTabButton = document.querySelector(selectors.tabs.establishmentsTab);
+        let establishments: Array<Record<string, string>> = [];
+        if (establishmentsTabButton) {
+            (establishmentsTabButton as HTMLElement).click();
+            await new Promise(resolve => setTimeout(resolve, 2000));
+            establishments = await getEstablishments();
+        }
 
         return {
-            informacion_general: generalInfo,
+            informacion_general_raw: generalInfo,
             actividad_economica: economicInfo,
             representante_legal: legalRepresentative,
+            representativeText,
+            establishments,
         };
     }, { selectors: CONFIG.selectors, maxTries: CONFIG.maxTries });
+
+    return {
+        ...details,
+        representantes: parseRepresentatives(representativeText),
+        establecimientos: establishments
+            .map(toEstablishment)
+            .filter((establishment): establishment is RuesEstablecimiento => establishment !== null),
+    };
+}
+
+/**
+ * Convierte los campos crudos de un establecimiento (claves normalizadas) al tipo de dominio
+ */
+function toEstablishment(raw: Record<string, string>): RuesEstablecimiento | null {
+    const find = (pattern: RegExp): string | undefined => {
+        const key = Object.keys(raw).find(candidate => pattern.test(candidate));
+        const value = key ? raw[key].trim() : '';
+        return value ? value : undefined;
+    };
+
+    const nombre = find(/^(nombre|razon_social)/);
+    if (!nombre) {
+        return null;
+    }
+
+    const renewalYear = Number(find(/renova/)?.match(/\d{4}/)?.[0]);
+
+    return {
+        nombre,
+        matricula: find(/matricula/),
+        camara_de_comercio: find(/camara/),
+        municipio: find(/municipio|ciudad/),
+        direccion: find(/direccion/),
+        estado: find(/^estado/),
+        ultimo_ano_renovado: Number.isFinite(renewalYear) && renewalYear > 0 ? renewalYear : undefined,
+    };
 }
@@ -0,0 +1,58 @@
+import { loadP12, inspectP12, findCertificateIssue } from '../infrastructure/utils/certificate';
+import { getDianErrorCode } from '../domain/dian/errors';
+import { normalizeDocumentNumber } from '../infrastructure/utils/identification';
+import type { CertificateInspectionPayload, CertificateInspectionResult } from '../domain/dian/interfaces';
+
+/**
+ * Inspecciona un certificado P12 sin lanzar el navegador.
+ * Permite detectar contraseña incorrecta o vencimiento antes del login; la diferencia con el NIT
+ * del representante se informa en `matchesNitRepresentanteLegal`, como en dian-auth.
+ */
+export async function handle(payload: CertificateInspectionPayload): Promise<CertificateInspectionResult> {
+    try {
+        console.log('=== Inspección de certificado P12 ===');
+
+        const identification = payload.nitRepresentanteLegal
+            ? normalizeDocumentNumber(payload.nitRepresentanteLegal, 'nitRepresentanteLegal')
+            : undefined;
+
+        const bundle = loadP12(payload.base64CertificateP12, payload.certificatePassword);
+        const certificate = inspectP12(bundle, identification?.number);
+
+        console.log('Titular:', certificate.subject.commonName ?? certificate.subject.raw);
+        console.log('Emisor:', certificate.issuer.commonName ?? certificate.issuer.raw);
+        console.log('Vence:', certificate.validTo, `(${certificate.daysToExpiry} días)`);
+
+        const issue = findCertificateIssue(certificate);
+
+        if (issue) {
+            console.log('⚠️  Certificado no utilizable:', issue.message);
+        }
+
+        // Igual que en dian-auth, la diferencia de NIT no invalida el certificado
+        if (certificate.matchesNitRepresentanteLegal === false) {
+            console.warn(`⚠️  El certificado (${certificate.identifications.join(', ')}) no coincide con el NIT del representante legal`);
+        }
+
+        return {
+            success: true,
+            valid: !issue,
+            nit: identification?.number,
+            dv: identification?.dv,
+            certificate,
+            error: issue?.message,
+            errorCode: issue ? getDianErrorCode(issue) : undefined
+        };
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const errorCode = getDianErrorCode(error);
+        console.error('❌ Error inspeccionando certificado:', errorCode, errorMessage);
+
+        return {
+            success: false,
+            valid: false,
+            error: errorMessage,
+            errorCode
+        };
+    }
+}
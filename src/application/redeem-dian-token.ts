@@ -0,0 +1,249 @@
+import { Browser, BrowserContext, Page } from 'playwright-core';
+import type { DianTokenAuthPayload, DianTokenAuthResult } from '../domain/dian/interfaces';
+import { createDianError, getDianErrorCode } from '../domain/dian/errors';
+import { normalizeNit, NormalizedNit } from '../infrastructure/utils/identification';
+import { withProxyRetry, ProxyConfig } from '../infrastructure/config/proxies';
+import { getBrowserLauncher } from '../infrastructure/browser/launcher';
+
+const isLambda = !!process.env.AWS_LAMBDA_FUNCTION_NAME;
+
+const CONFIG = {
+    urls: {
+        origin: 'https://catalogo-vpfe.dian.gov.co',
+        authToken: 'https://catalogo-vpfe.dian.gov.co/User/AuthToken'
+    },
+    allowedHosts: ['catalogo-vpfe.dian.gov.co', 'catalogo-vpfe-hab.dian.gov.co'],
+    loginPaths: ['/User/AuthToken', '/User/CompanyLogin', '/User/PersonLogin', '/User/Login'],
+    selectors: {
+        errorModal: '#errorModal',
+        errorModalTitle: '#errorModal-title',
+        errorModalMessage: '#errorModal-message',
+        errorAlert: '.dian-alert-danger p',
+        toastMessage: '.toast-message'
+    },
+    timeouts: {
+        navigation: 60000,
+        session: 60000
+    }
+} as const;
+
+export async function handle(payload: DianTokenAuthPayload): Promise<DianTokenAuthResult> {
+    let browser: Browser | null = null;
+    let context: BrowserContext | null = null;
+    let page: Page | null = null;
+
+    try {
+        const tokenUrl = buildTokenUrl(payload);
+        const identification = readCompanyIdentification(tokenUrl);
+
+        console.log('=== Canjear token DIAN (Playwright) ===');
+        console.log('Origen:', payload.origin ?? 'no especificado');
+
+        const headless = payload.headless ?? isLambda;
+
+        // En Lambda se reutiliza el navegador de la invocación anterior si sigue sano
+        browser = await getBrowserLauncher().acquire({ headless });
+        const activeBrowser = browser;
+
+        // Un proxy caído falla antes de llegar a la DIAN: se reintenta la apertura con otro
+        ({ context, page } = await withProxyRetry('dian', proxy => openTokenPage(activeBrowser, tokenUrl, proxy)));
+
+        const finalUrl = await waitForAuthenticatedSession(page);
+        console.log('✅ Sesión autenticada en:', finalUrl);
+
+        const cookies = await context.cookies();
+        console.log(`🍪 ${cookies.length} cookies capturadas`);
+
+        return {
+            success: true,
+            authenticated: true,
+            nit: identification?.nit,
+            dv: identification?.dv,
+            url: finalUrl,
+            cookies,
+            origin: payload.origin
+        };
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const errorCode = getDianErrorCode(error);
+        console.error('❌ Error canjeando token DIAN:', errorCode, errorMessage);
+
+        const errorResponse: DianTokenAuthResult = {
+            success: false,
+            authenticated: false,
+            error: errorMessage,
+            errorCode,
+            origin: payload.origin
+        };
+
+        if (page && !isLambda) {
+            try {
+                const buffer = await page.screenshot({ fullPage: true });
+                errorResponse.screenshot = buffer.toString('base64');
+                console.log('📸 Screenshot capturado para debugging.');
+            } catch (screenshotError) {
+                console.warn('⚠️ No se pudo capturar screenshot:', screenshotError);
+            }
+        }
+
+        return errorResponse;
+    } finally {
+        if (page) {
+            await page.close().catch(err => console.warn('⚠️ Error cerrando la página:', err));
+        }
+        if (context) {
+            await context.close().catch(err => console.warn('⚠️ Error cerrando el contexto:', err));
+        }
+        if (browser) {
+            await getBrowserLauncher().release(browser);
+        }
+    }
+}
+
+/**
+ * Abre el enlace de canje en un contexto nuevo, detrás de un proxy si dian está en PROXY_SCOPES
+ */
+async function openTokenPage(browser: Browser, tokenUrl: string, proxy: ProxyConfig | null): Promise<{ context: BrowserContext; page: Page }> {
+    const context = await getBrowserLauncher().newContext(browser, { proxy });
+
+    try {
+        const page = await context.newPage();
+        await page.goto(tokenUrl, {
+            waitUntil: 'domcontentloaded',
+            timeout: CONFIG.timeouts.navigation
+        });
+        return { context, page };
+    } catch (error) {
+        await context.close().catch(err => console.warn('⚠️ Error cerrando el contexto:', err));
+        throw error;
+    }
+}
+
+/**
+ * Construye la URL de canje a partir del enlace del correo o de sus partes.
+ * Solo se aceptan enlaces hacia el catálogo de la DIAN.
+ */
+function buildTokenUrl(payload: DianTokenAuthPayload): string {
+    if (payload.tokenUrl) {
+        let url: URL;
+        try {
+            url = new URL(payload.tokenUrl);
+        } catch (error) {
+            throw createDianError('La URL del token no es válida.', 'VALIDATION_ERROR');
+        }
+
+        if (url.protocol !== 'https:' || !(CONFIG.allowedHosts as readonly string[]).includes(url.hostname)) {
+            throw createDianError(`La URL del token debe apuntar a ${CONFIG.urls.origin}.`, 'VALIDATION_ERROR');
+        }
+
+        if (!url.searchParams.get('token')) {
+            throw createDianError('La URL no contiene el parámetro token.', 'VALIDATION_ERROR');
+        }
+
+        return url.toString();
+    }
+
+    const missingFields: string[] = [];
+
+    if (!payload.token) missingFields.push('token');
+    if (!payload.identificationType) missingFields.push('identificationType');
+    if (!payload.userCode) missingFields.push('userCode');
+    if (!payload.companyCode) missingFields.push('companyCode');
+
+    if (missingFields.length) {
+        throw createDianError(`Debe enviar tokenUrl o los campos: ${missingFields.join(', ')}`, 'VALIDATION_ERROR');
+    }
+
+    const { nit } = normalizeNit(payload.companyCode, 'companyCode');
+
+    const url = new URL(CONFIG.urls.authToken);
+    url.searchParams.set('pk', `${payload.identificationType}|${String(payload.userCode).replace(/[\s.,]/g, '')}`);
+    url.searchParams.set('rk', nit);
+    url.searchParams.set('token', String(payload.token));
+
+    return url.toString();
+}
+
+/**
+ * Lee el NIT de la empresa (parámetro rk) de la URL de canje.
+ * El enlace lo genera la DIAN, así que un rk inesperado no impide el canje.
+ */
+function readCompanyIdentification(tokenUrl: string): NormalizedNit | undefined {
+    const companyCode = new URL(tokenUrl).searchParams.get('rk');
+    if (!companyCode) {
+        return undefined;
+    }
+
+    try {
+        return normalizeNit(companyCode, 'rk');
+    } catch (error) {
+        console.warn('⚠️  No se pudo normalizar el NIT de la URL del token:', companyCode);
+        return undefined;
+    }
+}
+
+/**
+ * Espera a que el portal abandone las páginas de login, lo que indica que el token fue aceptado.
+ * Si el portal muestra un error (token vencido, ya usado, etc.) se lanza con ese texto.
+ */
+async function waitForAuthenticatedSession(page: Page): Promise<string> {
+    const deadline = Date.now() + CONFIG.timeouts.session;
+
+    while (Date.now() < deadline) {
+        const portalError = await readPortalError(page);
+        if (portalError) {
+            throw createDianError(portalError);
+        }
+
+        const currentUrl = new URL(page.url());
+        const isLoginPage = CONFIG.loginPaths.some(loginPath =>
+            currentUrl.pathname.toLowerCase().startsWith(loginPath.toLowerCase())
+        );
+
+        const isCatalogPage = (CONFIG.allowedHosts as readonly string[]).includes(currentUrl.hostname);
+
+        if (!isLoginPage && isCatalogPage) {
+            await page.waitForLoadState('networkidle', { timeout: 15000 }).catch(() => {
+                console.log('⏱️ Timeout esperando networkidle tras el canje');
+            });
+            return page.url();
+        }
+
+        await page.waitForTimeout(500);
+    }
+
+    throw createDianError('El portal de la DIAN no completó el inicio de sesión con el token. Es posible que haya expirado o ya se haya utilizado.', 'INVALID_CREDENTIALS');
+}
+
+async function readPortalError(page: Page): Promise<string | null> {
+    try {
+        const modalText = await page.evaluate((selectors) => {
+            const modal = document.querySelector<HTMLElement>(selectors.errorModal);
+            if (!modal) return '';
+            const style = window.getComputedStyle(modal);
+            const visible = (style.display !== 'none' || modal.classList.contains('in')) && modal.getAttribute('aria-hidden') !== 'true';
+            if (!visible) return '';
+            const title = document.querySelector(selectors.errorModalTitle)?.textContent?.trim() ?? '';
+            const message = document.querySelector(selectors.errorModalMessage)?.textContent?.trim() ?? '';
+            return [title, message].filter(Boolean).join(' - ');
+        }, CONFIG.selectors);
+
+        if (modalText) {
+            return modalText;
+        }
+
+        for (const selector of [CONFIG.selectors.errorAlert, CONFIG.selectors.toastMessage]) {
+            const element = await page.$(selector);
+            if (element) {
+                const text = (await element.innerText().catch(() => ''))?.trim();
+                if (text) {
+                    return text;
+                }
+            }
+        }
+    } catch (error) {
+        // La página puede estar navegando; se reintenta en la siguiente iteración
+    }
+
+    return null;
+}
@@ -0,0 +1,173 @@
+/**
+ * Vigila cambios en el RUES de una lista de NITs.
+ * Vuelve a consultar cada NIT con el lote de get-rues-data, compara contra el último snapshot
+ * y publica eventos cuando cambian el estado, el representante legal, las actividades CIIU
+ * o la renovación de la matrícula.
+ */
+
+import type {
+    RuesBatchItem,
+    RuesChangeEvent,
+    RuesSnapshot,
+    RuesWatchItem,
+    RuesWatchlistPayload,
+    RuesWatchlistResult
+} from '../domain/rues/interfaces';
+import { diffRuesData, toChangeEvents } from '../domain/rues/changes';
+import { createWatchlistStore, WatchlistStore } from '../infrastructure/watchlist/watchlist-store';
+import { createChangeSink, ChangeSink } from '../infrastructure/watchlist/change-sink';
+import { handle as queryBatch } from './get-rues-data-batch';
+import { remainingMs } from '../infrastructure/utils/deadline';
+
+const CONFIG = {
+    // Lotes pequeños: los snapshots y eventos de cada lote se guardan antes de consultar el siguiente,
+    // así un timeout solo pierde el lote en curso
+    chunkSize: 10,
+    // No se empieza un lote con menos tiempo que esto (una consulta puede tardar hasta 120 s)
+    minRemainingMs: 180000
+};
+
+/**
+ * @param deadline momento (epoch en ms) en que Lambda corta la invocación; los NITs que no alcanzan
+ * a consultarse quedan como SKIPPED. La watchlist guardada se recorre desde la revisión más antigua,
+ * así esos NITs son los primeros de la siguiente ejecución
+ */
+export async function handle(payload: RuesWatchlistPayload, deadline?: number): Promise<RuesWatchlistResult> {
+    const dryRun = payload.dryRun === true;
+    const items: RuesWatchItem[] = [];
+    let eventsPublished = 0;
+
+    try {
+        console.log('=== Vigilancia de cambios RUES ===\n');
+
+        const store = createWatchlistStore();
+        const sink = createChangeSink();
+
+        const identifications = payload.identifications?.length
+            ? payload.identifications
+            : await store.listIdentifications();
+
+        console.log(`📋 ${identifications.length} NIT(s) vigilados${dryRun ? ' (dryRun: no se guardan snapshots ni se publican eventos)' : ''}`);
+
+        for (let start = 0; start < identifications.length; start += CONFIG.chunkSize) {
+            if (remainingMs(deadline) < CONFIG.minRemainingMs) {
+                const pending = identifications.slice(start);
+                console.warn(`⏱️  Sin tiempo para ${pending.length} NIT(s); se revisan en la siguiente ejecución`);
+                pending.forEach(identificationNumber => items.push({ identificationNumber, status: 'SKIPPED' }));
+                break;
+            }
+
+            const batch = await queryBatch({
+                identifications: identifications.slice(start, start + CONFIG.chunkSize),
+                concurrency: payload.concurrency,
+                headless: payload.headless,
+                mode: 'detail'
+            }, deadline);
+
+            for (const result of batch.results) {
+                const item = await processResult(result, store, sink, dryRun);
+                eventsPublished += item.events?.length ?? 0;
+                items.push(item);
+            }
+        }
+
+        const changed = items.filter(item => item.status === 'CHANGED').length;
+        const skipped = items.filter(item => item.status === 'SKIPPED').length;
+        console.log(`\n✓ Vigilancia terminada: ${changed} con cambios, ${eventsPublished} evento(s)${dryRun ? ' detectados' : ' publicados'}${skipped ? `, ${skipped} sin revisar` : ''}`);
+
+        return {
+            success: true,
+            total: items.length,
+            changed,
+            skipped,
+            eventsPublished: dryRun ? 0 : eventsPublished,
+            dryRun,
+            items
+        };
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error('❌ Error en la vigilancia RUES:', errorMessage);
+
+        return {
+            success: false,
+            total: items.length,
+            changed: items.filter(item => item.status === 'CHANGED').length,
+            skipped: items.filter(item => item.status === 'SKIPPED').length,
+            eventsPublished,
+            dryRun,
+            items,
+            error: errorMessage
+        };
+    }
+}
+
+/**
+ * Compara la consulta con el snapshot anterior, publica los eventos y guarda el nuevo snapshot.
+ * El snapshot se guarda después de publicar: si el sink falla, el cambio se detecta de nuevo
+ * en la siguiente ejecución.
+ */
+async function processResult(result: RuesBatchItem, store: WatchlistStore, sink: ChangeSink, dryRun: boolean): Promise<RuesWatchItem> {
+    const { identificationNumber } = result;
+
+    if (result.status === 'SKIPPED') {
+        return { identificationNumber, status: 'SKIPPED' };
+    }
+
+    if (result.status !== 'FOUND' || !result.data) {
+        // Un NOT_FOUND puede ser una falla temporal de RUES: se conserva el snapshot anterior,
+        // pero cuenta como revisión para no volver a ocupar el inicio de la siguiente ejecución
+        if (!dryRun) {
+            await store.markChecked(identificationNumber, new Date().toISOString()).catch((error: unknown) => {
+                console.warn(`⚠️  ${identificationNumber}: no se pudo registrar la revisión:`, error instanceof Error ? error.message : error);
+            });
+        }
+        return {
+            identificationNumber,
+            status: result.status === 'NOT_FOUND' ? 'NOT_FOUND' : 'ERROR',
+            error: result.error
+        };
+    }
+
+    try {
+        const snapshot: RuesSnapshot = {
+            identificationNumber,
+            data: result.data,
+            capturedAt: new Date().toISOString()
+        };
+        const previous = await store.getSnapshot(identificationNumber);
+
+        if (!previous) {
+            console.log(`🆕 ${identificationNumber}: primer snapshot`);
+            if (!dryRun) {
+                await store.saveSnapshot(snapshot);
+            }
+            return { identificationNumber, status: 'BASELINE' };
+        }
+
+        const changes = diffRuesData(previous.data, snapshot.data);
+        const events: RuesChangeEvent[] = toChangeEvents(previous, snapshot, changes);
+
+        if (changes.length > 0) {
+            console.log(`🔄 ${identificationNumber}: ${changes.length} campo(s) cambiaron, ${events.length} evento(s)`);
+        }
+
+        if (!dryRun) {
+            if (events.length > 0) {
+                await sink.publish(events);
+            }
+            await store.saveSnapshot(snapshot);
+        }
+
+        return {
+            identificationNumber,
+            status: changes.length > 0 ? 'CHANGED' : 'UNCHANGED',
+            changes,
+            events: events.map(event => event.type)
+        };
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`❌ ${identificationNumber}: ${errorMessage}`);
+
+        return { identificationNumber, status: 'ERROR', error: errorMessage };
+    }
+}
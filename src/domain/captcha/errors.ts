@@ -0,0 +1,61 @@
+/**
+ * Códigos de error de los proveedores de captcha.
+ * Permiten decidir si vale la pena pasar al siguiente proveedor sin leer el texto de cada API.
+ */
+export type CaptchaErrorCode =
+    | 'CAPTCHA_CONFIG'
+    | 'CAPTCHA_AUTH'
+    | 'CAPTCHA_NO_BALANCE'
+    | 'CAPTCHA_UNSOLVABLE'
+    | 'CAPTCHA_TIMEOUT'
+    | 'CAPTCHA_PROVIDER_ERROR'
+    | 'CAPTCHA_UNSOLVED'
+    | 'BUDGET_EXCEEDED';
+
+const CAPTCHA_ERROR_CODES: CaptchaErrorCode[] = [
+    'CAPTCHA_CONFIG',
+    'CAPTCHA_AUTH',
+    'CAPTCHA_NO_BALANCE',
+    'CAPTCHA_UNSOLVABLE',
+    'CAPTCHA_TIMEOUT',
+    'CAPTCHA_PROVIDER_ERROR',
+    'CAPTCHA_UNSOLVED',
+    'BUDGET_EXCEEDED',
+];
+
+export function isCaptchaErrorCode(value: unknown): value is CaptchaErrorCode {
+    return typeof value === 'string' && (CAPTCHA_ERROR_CODES as string[]).includes(value);
+}
+
+/**
+ * Errores de cuenta, configuración o presupuesto: reintentar con otro token no los resuelve,
+ * así que los flujos DIAN los devuelven con su código en lugar de CAPTCHA_UNSOLVED
+ */
+const FATAL_CAPTCHA_ERROR_CODES: CaptchaErrorCode[] = [
+    'CAPTCHA_CONFIG',
+    'CAPTCHA_AUTH',
+    'CAPTCHA_NO_BALANCE',
+    'BUDGET_EXCEEDED',
+];
+
+export function isFatalCaptchaError(error: unknown): boolean {
+    return FATAL_CAPTCHA_ERROR_CODES.includes(getCaptchaErrorCode(error));
+}
+
+/**
+ * Crea un Error con `code` y el proveedor que lo produjo
+ */
+export function createCaptchaError(message: string, code: CaptchaErrorCode, provider?: string): Error {
+    const error = new Error(message);
+    (error as any).code = code;
+    (error as any).provider = provider;
+    return error;
+}
+
+/**
+ * Obtiene el código de un error capturado; los errores sin código son fallas del proveedor
+ */
+export function getCaptchaErrorCode(error: unknown): CaptchaErrorCode {
+    const code = (error as any)?.code;
+    return isCaptchaErrorCode(code) ? code : 'CAPTCHA_PROVIDER_ERROR';
+}
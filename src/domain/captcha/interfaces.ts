@@ -0,0 +1,71 @@
+import type { CaptchaErrorCode } from './errors';
+
+/**
+ * Tipos de los servicios de resolución de captcha
+ */
+
+export interface TurnstileTask {
+    siteKey: string;
+    pageUrl: string;
+}
+
+export interface CaptchaSolverOptions {
+    timeoutMs: number;
+    pollIntervalMs: number;
+}
+
+/**
+ * Solución devuelta por un proveedor; `taskId` identifica la tarea en su API
+ */
+export interface CaptchaSolution {
+    provider: string;
+    taskId: string;
+    token: string;
+}
+
+/**
+ * Proveedor de resolución de captcha (AntiCaptcha, 2Captcha, CapSolver...).
+ * Lanza errores con `code` de CaptchaErrorCode cuando no obtiene solución.
+ */
+export interface CaptchaSolver {
+    readonly name: string;
+    solveTurnstile(task: TurnstileTask, options: CaptchaSolverOptions): Promise<CaptchaSolution>;
+    /** Saldo disponible en la cuenta del proveedor (USD) */
+    getBalance(): Promise<number>;
+    /** Reporta un token rechazado por el sitio; los proveedores suelen reembolsar la tarea */
+    reportIncorrect?(taskId: string): Promise<void>;
+    /** Reporta un token aceptado por el sitio */
+    reportCorrect?(taskId: string): Promise<void>;
+}
+
+export type CaptchaOutcome = 'SOLVED' | CaptchaErrorCode;
+
+/**
+ * Registro de cada intento de resolución con un proveedor
+ */
+export interface CaptchaSolveRecord {
+    provider: string;
+    /** Posición del proveedor en la cadena de esa resolución (1 = primero) */
+    attempt: number;
+    outcome: CaptchaOutcome;
+    durationMs: number;
+    /** Costo estimado en USD; solo se cobra la tarea resuelta */
+    costUsd: number;
+    solvedAt: string;
+}
+
+/**
+ * Gasto acumulado del día y del mes en curso (hora de Colombia)
+ */
+export interface CaptchaSpend {
+    day: string;
+    month: string;
+    dailyUsd: number;
+    monthlyUsd: number;
+}
+
+export interface CaptchaBalance {
+    provider: string;
+    balance?: number;
+    error?: string;
+}
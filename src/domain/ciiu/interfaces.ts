@@ -0,0 +1,29 @@
+/**
+ * Tipos del catálogo CIIU Rev. 4 A.C. (DANE)
+ */
+
+export type CiiuNivel = 'seccion' | 'division' | 'grupo';
+
+export interface CiiuNodo {
+    codigo: string;
+    nombre: string;
+}
+
+/**
+ * Jerarquía de una clase CIIU (4 dígitos)
+ */
+export interface CiiuClasificacion {
+    clase: string;
+    seccion: CiiuNodo;
+    division: CiiuNodo;
+    grupo: CiiuNodo;
+}
+
+/**
+ * Resultado de una búsqueda en el catálogo
+ */
+export interface CiiuCatalogEntry extends CiiuNodo {
+    nivel: CiiuNivel;
+    /** Letra de la sección a la que pertenece */
+    seccion: string;
+}
@@ -0,0 +1,103 @@
+/**
+ * Códigos estables para los errores del portal DIAN.
+ * El backend debe decidir reintentos con estos códigos y no con el texto de los modales.
+ */
+export type DianErrorCode =
+    | 'VALIDATION_ERROR'
+    | 'INVALID_CREDENTIALS'
+    | 'USER_NOT_REGISTERED'
+    | 'CAPTCHA_REJECTED'
+    | 'CAPTCHA_UNSOLVED'
+    | 'CAPTCHA_CONFIG'
+    | 'CAPTCHA_AUTH'
+    | 'CAPTCHA_NO_BALANCE'
+    | 'BUDGET_EXCEEDED'
+    | 'PORTAL_UNAVAILABLE'
+    | 'PAGE_RELOADED'
+    | 'CERTIFICATE_INVALID'
+    | 'CERTIFICATE_PASSWORD_INVALID'
+    | 'CERTIFICATE_UNSUPPORTED'
+    | 'CERTIFICATE_KEY_MISSING'
+    | 'CERTIFICATE_EXPIRED'
+    | 'CERTIFICATE_NOT_YET_VALID'
+    | 'DOCUMENT_NOT_FOUND'
+    | 'STORAGE_ERROR'
+    | 'UNKNOWN';
+
+/**
+ * statusCode HTTP devuelto por las lambdas para cada código
+ */
+export const DIAN_ERROR_STATUS: Record<DianErrorCode, number> = {
+    VALIDATION_ERROR: 400,
+    INVALID_CREDENTIALS: 401,
+    USER_NOT_REGISTERED: 404,
+    CAPTCHA_REJECTED: 422,
+    CAPTCHA_UNSOLVED: 424,
+    CAPTCHA_CONFIG: 500,
+    CAPTCHA_AUTH: 502,
+    CAPTCHA_NO_BALANCE: 402,
+    BUDGET_EXCEEDED: 402,
+    PAGE_RELOADED: 502,
+    PORTAL_UNAVAILABLE: 503,
+    CERTIFICATE_INVALID: 400,
+    CERTIFICATE_PASSWORD_INVALID: 401,
+    CERTIFICATE_UNSUPPORTED: 415,
+    CERTIFICATE_KEY_MISSING: 400,
+    CERTIFICATE_EXPIRED: 403,
+    CERTIFICATE_NOT_YET_VALID: 403,
+    DOCUMENT_NOT_FOUND: 404,
+    STORAGE_ERROR: 500,
+    UNKNOWN: 500,
+};
+
+/**
+ * Patrones sobre los textos de modales y alertas de la DIAN (sin tildes, en minúscula).
+ * El orden importa: se usa el primer código cuyo patrón coincida.
+ */
+const MESSAGE_PATTERNS: Array<{ code: DianErrorCode; pattern: RegExp }> = [
+    { code: 'CAPTCHA_REJECTED', pattern: /captcha|turnstile|robot|verificacion humana/ },
+    // Solo la recarga del portal; un "waiting for navigation" que vence es un timeout, no una recarga
+    { code: 'PAGE_RELOADED', pattern: /se recargo|se cerro antes|target page, context or browser has been closed|execution context was destroyed|interrupted by another navigation/ },
+    { code: 'USER_NOT_REGISTERED', pattern: /no (se encuentra|esta|ha sido) (registrad|habilitad|asociad)|no existe|no tiene permisos|no esta autorizad|no pertenece/ },
+    { code: 'INVALID_CREDENTIALS', pattern: /credenciales|contrasena|incorrect|no coincide|invalid|verifique (la informacion|los datos)/ },
+    { code: 'PORTAL_UNAVAILABLE', pattern: /no (esta )?disponible|intente (mas tarde|nuevamente mas tarde)|mantenimiento|error interno|servicio|timeout|tiempo de espera|err_|enotfound|econn(reset|refused)|etimedout|\b50[234]\b/ },
+];
+
+/**
+ * Clasifica un texto de error del portal en un código estable
+ */
+export function classifyDianError(message: string): DianErrorCode {
+    const normalized = message
+        .toLowerCase()
+        .normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+    const match = MESSAGE_PATTERNS.find(({ pattern }) => pattern.test(normalized));
+    return match ? match.code : 'UNKNOWN';
+}
+
+export function isDianErrorCode(value: unknown): value is DianErrorCode {
+    return typeof value === 'string' && value in DIAN_ERROR_STATUS;
+}
+
+/**
+ * Crea un Error con `code`, igual que los errores NOT_FOUND/API_ERROR de RUES.
+ * Si no se indica código se clasifica a partir del mensaje.
+ */
+export function createDianError(message: string, code: DianErrorCode = classifyDianError(message)): Error {
+    const error = new Error(message);
+    (error as any).code = code;
+    return error;
+}
+
+/**
+ * Obtiene el código de un error capturado, clasificando el mensaje si no trae uno propio
+ */
+export function getDianErrorCode(error: unknown): DianErrorCode {
+    const code = (error as any)?.code;
+    if (isDianErrorCode(code)) {
+        return code;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    return classifyDianError(message);
+}
@@ -1,3 +1,5 @@
+import type { DianErrorCode } from './errors';
+
 export interface Payload {
     base64CertificateP12: string;
     certificatePassword: string;
@@ -12,12 +14,210 @@ export interface DianTokenEmailPayload {
     companyCode: string;
     origin?: string;
     headless?: boolean;
+    mailbox?: DianMailboxConfig;
+    mailboxRef?: string;
 }
 
 export interface DianTokenEmailResult {
     success: boolean;
+    /** NIT de la empresa sin formato ni DV, y su DV calculado */
+    nit?: string;
+    dv?: string;
     message?: string;
     error?: string;
     origin?: string;
     screenshot?: string;
+    errorCode?: DianErrorCode;
+    tokenUrl?: string;
+    tokenReceivedAt?: string;
+    mailboxError?: string;
+}
+
+/**
+ * Configuración IMAP del buzón donde llega el correo con el token de la DIAN
+ */
+export interface DianMailboxConfig {
+    host: string;
+    port?: number;
+    secure?: boolean;
+    user: string;
+    password: string;
+    mailbox?: string;
+    sender?: string;
+    rejectUnauthorized?: boolean;
+    timeoutMs?: number;
+    pollIntervalMs?: number;
+}
+
+/**
+ * Cookie de sesión capturada del portal DIAN
+ */
+export interface DianSessionCookie {
+    name: string;
+    value: string;
+    domain: string;
+    path: string;
+    expires?: number;
+    httpOnly?: boolean;
+    secure?: boolean;
+    sameSite?: string;
+}
+
+/**
+ * Payload para canjear el token enviado por correo.
+ * Se acepta la URL completa del correo o el token junto con los datos del login.
+ */
+export interface DianTokenAuthPayload {
+    tokenUrl?: string;
+    token?: string;
+    identificationType?: string;
+    userCode?: string;
+    companyCode?: string;
+    origin?: string;
+    headless?: boolean;
+}
+
+export interface DianTokenAuthResult {
+    success: boolean;
+    nit?: string;
+    dv?: string;
+    authenticated?: boolean;
+    url?: string;
+    cookies?: DianSessionCookie[];
+    error?: string;
+    errorCode?: DianErrorCode;
+    origin?: string;
+    screenshot?: string;
+}
+
+/**
+ * Payload para inspeccionar un certificado P12 sin abrir el navegador
+ */
+export interface CertificateInspectionPayload {
+    base64CertificateP12: string;
+    certificatePassword: string;
+    nitRepresentanteLegal?: string;
+}
+
+export interface CertificateName {
+    commonName?: string;
+    serialNumber?: string;
+    organization?: string;
+    organizationalUnit?: string;
+    country?: string;
+    email?: string;
+    raw: string;
+}
+
+export interface CertificateInspection {
+    subject: CertificateName;
+    issuer: CertificateName;
+    serialNumber: string;
+    identification?: string;
+    identifications: string[];
+    validFrom: string;
+    validTo: string;
+    daysToExpiry: number;
+    expired: boolean;
+    notYetValid: boolean;
+    keyUsage: string[];
+    extendedKeyUsage: string[];
+    hasPrivateKey: boolean;
+    chain: {
+        length: number;
+        complete: boolean;
+        certificates: Array<{ subject: string; issuer: string }>;
+    };
+    matchesNitRepresentanteLegal?: boolean;
+}
+
+export interface CertificateInspectionResult {
+    success: boolean;
+    valid?: boolean;
+    nit?: string;
+    dv?: string;
+    certificate?: CertificateInspection;
+    error?: string;
+    errorCode?: DianErrorCode;
+}
+
+export type DianDocumentDirection = 'received' | 'issued';
+
+/**
+ * Payload para listar documentos electrónicos tras el login con certificado.
+ * Las fechas van en formato YYYY-MM-DD.
+ */
+export interface DianDocumentsPayload extends Payload {
+    startDate: string;
+    endDate: string;
+    direction: DianDocumentDirection;
+    format?: 'json' | 'csv';
+    maxPages?: number;
+}
+
+export interface DianDocument {
+    cufe: string;
+    documentType?: string;
+    prefix?: string;
+    number?: string;
+    issuerNit?: string;
+    issuerName?: string;
+    receiverNit?: string;
+    receiverName?: string;
+    date?: string;
+    total?: number;
+    status?: string;
+}
+
+export interface DianDocumentsResult {
+    success: boolean;
+    nit?: string;
+    dv?: string;
+    direction?: DianDocumentDirection;
+    startDate?: string;
+    endDate?: string;
+    total?: number;
+    documents?: DianDocument[];
+    csv?: string;
+    error?: string;
+    errorCode?: DianErrorCode;
+}
+
+/**
+ * Destino de los ZIP descargados: en la respuesta (base64), en un directorio local o en S3.
+ * El directorio y el bucket salen de la configuración del entorno, no del payload.
+ */
+export interface DianDocumentStorageTarget {
+    type: 'inline' | 'local' | 's3';
+}
+
+/**
+ * Payload para descargar el ZIP (XML + PDF) de documentos por CUFE.
+ * Se usan las cookies de `dian-auth` si vienen; si no, se inicia sesión con el certificado.
+ */
+export interface DianDocumentDownloadPayload extends Partial<Payload> {
+    cufes: string[];
+    cookies?: DianSessionCookie[];
+    storage?: DianDocumentStorageTarget;
+}
+
+export interface DianDocumentDownload {
+    cufe: string;
+    success: boolean;
+    fileName?: string;
+    size?: number;
+    base64?: string;
+    location?: string;
+    error?: string;
+    errorCode?: DianErrorCode;
+}
+
+export interface DianDocumentDownloadResult {
+    success: boolean;
+    total?: number;
+    downloaded?: number;
+    failed?: number;
+    documents?: DianDocumentDownload[];
+    error?: string;
+    errorCode?: DianErrorCode;
 }
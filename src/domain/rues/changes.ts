@@ -0,0 +1,99 @@
+import type { RuesChangeEvent, RuesChangeType, RuesData, RuesFieldChange, RuesSnapshot } from './interfaces';
+
+/**
+ * Campos que no se comparan: dependen de la fecha de la consulta o de cómo respondió RUES
+ */
+const IGNORED_FIELDS = [
+    /^informacion_general_raw(\.|$)/,
+    /^cumplimiento\.(fecha_evaluacion|fecha_limite_renovacion|ano_exigido|anos_en_mora)$/,
+];
+
+/**
+ * Campos vigilados y el evento que generan
+ */
+const WATCHED_FIELDS: Array<{ type: RuesChangeType; pattern: RegExp }> = [
+    { type: 'ESTADO', pattern: /^(estado|cumplimiento\.estado)$/ },
+    { type: 'REPRESENTANTE_LEGAL', pattern: /^(representante_legal|representantes)$/ },
+    { type: 'ACTIVIDAD_ECONOMICA', pattern: /^actividad_economica$/ },
+    { type: 'RENOVACION', pattern: /^(informacion_general\.(ultimo_ano_renovado|fecha_renovacion)|cumplimiento\.(al_dia|ultimo_ano_renovado))$/ },
+];
+
+/**
+ * Compara dos consultas campo a campo. Los objetos se recorren por ruta
+ * y las listas se comparan completas (el orden de RUES no es significativo).
+ */
+export function diffRuesData(previous: RuesData, current: RuesData): RuesFieldChange[] {
+    const before = flatten(previous);
+    const after = flatten(current);
+    const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+
+    return fields
+        .filter(field => !IGNORED_FIELDS.some(pattern => pattern.test(field)))
+        .filter(field => canonical(before[field]) !== canonical(after[field]))
+        .map(field => ({ field, anterior: before[field], nuevo: after[field] }));
+}
+
+/**
+ * Agrupa los cambios de campos vigilados en un evento por tipo
+ */
+export function toChangeEvents(previous: RuesSnapshot, current: RuesSnapshot, changes: RuesFieldChange[]): RuesChangeEvent[] {
+    const events: RuesChangeEvent[] = [];
+
+    WATCHED_FIELDS.forEach(({ type, pattern }) => {
+        const matching = changes.filter(change => pattern.test(change.field));
+        if (matching.length === 0) {
+            return;
+        }
+
+        events.push({
+            type,
+            identificationNumber: current.identificationNumber,
+            nombre: current.data.nombre,
+            changes: matching,
+            previousCapturedAt: previous.capturedAt,
+            detectedAt: current.capturedAt,
+        });
+    });
+
+    return events;
+}
+
+function flatten(value: unknown, prefix = '', result: Record<string, unknown> = {}): Record<string, unknown> {
+    if (isPlainObject(value)) {
+        Object.entries(value).forEach(([key, child]) => {
+            flatten(child, prefix ? `${prefix}.${key}` : key, result);
+        });
+    } else if (value !== undefined && value !== null && value !== '' && prefix) {
+        result[prefix] = value;
+    }
+
+    return result;
+}
+
+/**
+ * Representación comparable: espacios normalizados, mayúsculas y listas ordenadas
+ */
+function canonical(value: unknown): string {
+    if (value === undefined) {
+        return '';
+    }
+
+    if (typeof value === 'string') {
+        return value.replace(/\s+/g, ' ').trim().toUpperCase();
+    }
+
+    if (Array.isArray(value)) {
+        return JSON.stringify(value.map(item => canonical(item)).sort());
+    }
+
+    if (isPlainObject(value)) {
+        const keys = Object.keys(value).sort();
+        return JSON.stringify(keys.map(key => [key, canonical(value[key])]));
+    }
+
+    return JSON.stringify(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,73 @@
+import type { RuesCumplimiento, RuesData, RuesEstadoMatricula } from './interfaces';
+
+/**
+ * Reglas de renovación de la matrícula mercantil (Código de Comercio, art. 33):
+ * la matrícula se renueva cada año a más tardar el 31 de marzo.
+ */
+const RENEWAL_DEADLINE = { month: 3, day: 31 };
+
+// Colombia no tiene horario de verano: UTC-5 todo el año
+const COLOMBIA_OFFSET_MS = -5 * 60 * 60 * 1000;
+
+/**
+ * Patrones sobre el estado de la matrícula (sin tildes, en minúscula).
+ * El orden importa: "inactiva" contiene "activa".
+ */
+const STATUS_PATTERNS: Array<{ estado: RuesEstadoMatricula; pattern: RegExp }> = [
+    { estado: 'en_liquidacion', pattern: /liquidacion/ },
+    { estado: 'cancelada', pattern: /cancelad/ },
+    { estado: 'inactiva', pattern: /inactiv/ },
+    { estado: 'activa', pattern: /activ/ },
+];
+
+/**
+ * Evalúa si la matrícula está renovada a la fecha `now`.
+ * Hasta el 31 de marzo basta con la renovación del año anterior; desde el 1 de abril
+ * se exige la del año en curso. Una matrícula del mismo año cuenta como renovada.
+ * `now` se recibe como parámetro para poder evaluar contra fechas fijas.
+ */
+export function assessRenewalCompliance(data: RuesData, now: Date = new Date()): RuesCumplimiento {
+    const today = new Date(now.getTime() + COLOMBIA_OFFSET_MS);
+    const year = today.getUTCFullYear();
+    const month = today.getUTCMonth() + 1;
+    const day = today.getUTCDate();
+
+    const withinGracePeriod = month < RENEWAL_DEADLINE.month
+        || (month === RENEWAL_DEADLINE.month && day <= RENEWAL_DEADLINE.day);
+    const anoExigido = withinGracePeriod ? year - 1 : year;
+
+    const info = data.informacion_general;
+    const registrationYear = info?.fecha_matricula ? Number(info.fecha_matricula.substring(0, 4)) : undefined;
+    const renewedYear = info?.ultimo_ano_renovado;
+    const ultimoAnoRenovado = renewedYear !== undefined || registrationYear !== undefined
+        ? Math.max(renewedYear ?? 0, registrationYear ?? 0)
+        : undefined;
+
+    const estado = classifyStatus(data.estado ?? data.informacion_general_raw?.estado ?? data.informacion_general_raw?.estado_matricula);
+
+    // Las matrículas canceladas o en liquidación no están obligadas a renovar
+    const obligadaARenovar = estado !== 'cancelada' && estado !== 'en_liquidacion';
+
+    // Sin obligación de renovar no hay mora que evaluar: al_dia queda sin definir en lugar de false,
+    // para que una matrícula cancelada no aparezca como incumplida
+    return {
+        ultimo_ano_renovado: ultimoAnoRenovado,
+        ano_exigido: anoExigido,
+        fecha_limite_renovacion: `${year}-${pad(RENEWAL_DEADLINE.month)}-${pad(RENEWAL_DEADLINE.day)}`,
+        al_dia: obligadaARenovar ? ultimoAnoRenovado !== undefined && ultimoAnoRenovado >= anoExigido : undefined,
+        anos_en_mora: obligadaARenovar && ultimoAnoRenovado !== undefined ? Math.max(0, anoExigido - ultimoAnoRenovado) : undefined,
+        estado,
+        obligada_a_renovar: obligadaARenovar,
+        fecha_evaluacion: `${year}-${pad(month)}-${pad(day)}`,
+    };
+}
+
+function classifyStatus(text?: string): RuesEstadoMatricula {
+    const normalized = (text ?? '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    const match = STATUS_PATTERNS.find(({ pattern }) => pattern.test(normalized));
+    return match ? match.estado : 'desconocido';
+}
+
+function pad(value: number): string {
+    return String(value).padStart(2, '0');
+}
@@ -1,9 +1,36 @@
+import type { CiiuNodo } from '../ciiu/interfaces';
+
+/**
+ * Tipos de registro de RUES: Registro Mercantil, Entidades sin ánimo de lucro
+ * y Entidades de economía solidaria
+ */
+export type RuesRecordType = 'RM' | 'ESAL' | 'ESOL';
+
 /**
  * Payload de entrada para la lambda de consulta RUES
  */
 export interface RuesPayload {
-    identificationNumber: string;
+    identificationNumber?: string;
+    /** Razón social; se usa cuando no viene identificationNumber */
+    companyName?: string;
     headless?: boolean;
+    /**
+     * detail: detalle de una tarjeta; matches: todas las tarjetas de RM, ESAL y ESOL sin detalle.
+     * Por defecto detail con identificación y matches con razón social.
+     */
+    mode?: 'detail' | 'matches';
+    /** Filtros para elegir la tarjeta a detallar cuando hay varias matrículas */
+    camaraComercio?: string;
+    matricula?: string;
+    /** Tipos de registro a consultar y su orden (por defecto RM, ESAL, ESOL) */
+    recordTypes?: RuesRecordType[];
+    /**
+     * Busca en cada tipo de registro en una página propia del mismo contexto.
+     * first: responde con el primero que encuentre la entidad; all: espera todos.
+     */
+    parallel?: 'first' | 'all';
+    /** Ignora el caché y vuelve a consultar RUES (el resultado nuevo sí se guarda) */
+    forceRefresh?: boolean;
 }
 
 /**
@@ -11,10 +38,38 @@ export interface RuesPayload {
  */
 export interface RuesResult {
     success: boolean;
+    /** NIT sin formato ni DV y DV calculado (búsqueda por identificación) */
+    nit?: string;
+    dv?: string;
     data?: RuesData;
+    /** Detalle de cada tipo de registro donde se encontró la entidad (parallel: all) */
+    registros?: RuesData[];
+    coincidencias?: RuesCoincidencia[];
+    /** api: datos tomados del JSON de RUES; dom: extraídos del HTML */
+    source?: 'api' | 'dom';
+    /** Fecha (ISO) de la consulta original cuando el resultado viene del caché */
+    cachedAt?: string;
     error?: string;
 }
 
+/**
+ * Tarjeta de resultados de la búsqueda (información básica, sin detalle).
+ * `seleccionada` marca la tarjeta de la que se extrajo `data`.
+ */
+export interface RuesCoincidencia {
+    nombre: string;
+    tipo_empresa: string;
+    identificacion?: string;
+    numero_de_inscripcion?: string;
+    categoria?: string;
+    camara_de_comercio?: string;
+    numero_de_matricula?: string;
+    estado?: string;
+    /** Similitud (0 a 1) con la razón social buscada */
+    similitud?: number;
+    seleccionada: boolean;
+}
+
 /**
  * Datos extraídos de RUES
  */
@@ -27,8 +82,196 @@ export interface RuesData {
     camara_de_comercio?: string;
     numero_de_matricula?: string;
     estado?: string;
-    informacion_general?: Record<string, string>;
-    actividad_economica?: Array<{ ciiu: string; description: string }>;
+    informacion_general?: RuesInformacionGeneral;
+    /** Todas las etiquetas de "Información general" tal como vienen de RUES, incluidas las no reconocidas */
+    informacion_general_raw?: Record<string, string>;
+    actividad_economica?: RuesActividadEconomica[];
     representante_legal?: string;
+    representantes?: RuesRepresentante[];
+    establecimientos?: RuesEstablecimiento[];
+    cumplimiento?: RuesCumplimiento;
+}
+
+/**
+ * Actividad económica registrada en RUES, enriquecida con el catálogo CIIU Rev. 4 A.C.
+ * RUES lista primero la actividad principal y luego la secundaria; las demás quedan como "otra".
+ */
+export interface RuesActividadEconomica {
+    ciiu: string;
+    description: string;
+    tipo?: 'principal' | 'secundaria' | 'otra';
+    /** false si el código no es una clase del catálogo CIIU Rev. 4 A.C. */
+    valido?: boolean;
+    seccion?: CiiuNodo;
+    division?: CiiuNodo;
+    grupo?: CiiuNodo;
+}
+
+export type RuesEstadoMatricula = 'activa' | 'inactiva' | 'cancelada' | 'en_liquidacion' | 'desconocido';
+
+/**
+ * Cumplimiento de la renovación anual de la matrícula (plazo: 31 de marzo).
+ * Las fechas van en ISO (YYYY-MM-DD) y se evalúan en hora de Colombia.
+ */
+export interface RuesCumplimiento {
+    /** Último año renovado; si no aparece, el año de la matrícula */
+    ultimo_ano_renovado?: number;
+    /** Año que debe estar renovado a la fecha de evaluación */
+    ano_exigido: number;
+    /** Plazo de renovación del año de la evaluación */
+    fecha_limite_renovacion: string;
+    /** Sin definir si la matrícula no está obligada a renovar (cancelada o en liquidación) */
+    al_dia?: boolean;
+    anos_en_mora?: number;
+    estado: RuesEstadoMatricula;
+    /** false para matrículas canceladas o en liquidación */
+    obligada_a_renovar: boolean;
+    fecha_evaluacion: string;
+}
+
+/**
+ * Campos conocidos de la pestaña "Información general". Las fechas van en ISO (YYYY-MM-DD).
+ */
+export interface RuesInformacionGeneral {
+    fecha_matricula?: string;
+    fecha_renovacion?: string;
+    ultimo_ano_renovado?: number;
+    fecha_vigencia?: string;
+    /** true cuando RUES muestra la vigencia como "Indefinida" */
+    vigencia_indefinida?: boolean;
+    tipo_sociedad?: string;
+    organizacion_juridica?: string;
+    municipio?: string;
+    departamento?: string;
+    codigo_dane_municipio?: string;
+    codigo_dane_departamento?: string;
+    direccion?: string;
+}
+
+/**
+ * Representante legal de la pestaña "Representante legal".
+ * `cargo` es el texto tal como aparece en RUES; `rol` lo agrupa.
+ */
+export interface RuesRepresentante {
+    rol: 'principal' | 'suplente' | 'gerente';
+    cargo?: string;
+    nombre: string;
+    tipo_documento?: string;
+    numero_documento?: string;
+    nombramiento?: string;
+}
+
+/**
+ * Establecimiento de comercio de la pestaña "Establecimientos"
+ */
+export interface RuesEstablecimiento {
+    nombre: string;
+    matricula?: string;
+    camara_de_comercio?: string;
+    municipio?: string;
+    direccion?: string;
+    estado?: string;
+    ultimo_ano_renovado?: number;
 }
 
+
+/**
+ * Payload para consultar varias identificaciones reutilizando un mismo navegador
+ */
+export interface RuesBatchPayload {
+    identifications: string[];
+    /** Páginas simultáneas (por defecto 3) */
+    concurrency?: number;
+    headless?: boolean;
+    mode?: 'detail' | 'matches';
+    recordTypes?: RuesRecordType[];
+}
+
+/** SKIPPED: no alcanzó a consultarse antes del límite de tiempo de la invocación */
+export type RuesBatchStatus = 'FOUND' | 'NOT_FOUND' | 'API_ERROR' | 'VALIDATION_ERROR' | 'UNKNOWN_ERROR' | 'SKIPPED';
+
+export interface RuesBatchItem {
+    identificationNumber: string;
+    status: RuesBatchStatus;
+    nit?: string;
+    dv?: string;
+    data?: RuesData;
+    coincidencias?: RuesCoincidencia[];
+    error?: string;
+    durationMs: number;
+}
+
+export interface RuesBatchResult {
+    success: boolean;
+    total: number;
+    found: number;
+    notFound: number;
+    failed: number;
+    skipped: number;
+    results: RuesBatchItem[];
+}
+
+/**
+ * Payload de la lambda programada que vigila cambios en RUES.
+ * Sin `identifications` se usa la lista guardada en el almacén de la watchlist.
+ */
+export interface RuesWatchlistPayload {
+    identifications?: string[];
+    concurrency?: number;
+    headless?: boolean;
+    /** Calcula los cambios sin guardar snapshots ni publicar eventos */
+    dryRun?: boolean;
+}
+
+/**
+ * Última consulta guardada de una identificación vigilada
+ */
+export interface RuesSnapshot {
+    identificationNumber: string;
+    data: RuesData;
+    capturedAt: string;
+}
+
+export interface RuesFieldChange {
+    /** Ruta del campo, p. ej. "estado" o "informacion_general.fecha_renovacion" */
+    field: string;
+    anterior?: unknown;
+    nuevo?: unknown;
+}
+
+export type RuesChangeType = 'ESTADO' | 'REPRESENTANTE_LEGAL' | 'ACTIVIDAD_ECONOMICA' | 'RENOVACION';
+
+/**
+ * Evento publicado en el sink cuando cambia un campo vigilado
+ */
+export interface RuesChangeEvent {
+    type: RuesChangeType;
+    identificationNumber: string;
+    nombre: string;
+    changes: RuesFieldChange[];
+    previousCapturedAt: string;
+    detectedAt: string;
+}
+
+/** SKIPPED: no alcanzó a consultarse antes del límite de tiempo; conserva su snapshot anterior */
+export type RuesWatchStatus = 'BASELINE' | 'UNCHANGED' | 'CHANGED' | 'NOT_FOUND' | 'ERROR' | 'SKIPPED';
+
+export interface RuesWatchItem {
+    identificationNumber: string;
+    status: RuesWatchStatus;
+    /** Todos los campos que cambiaron, vigilados o no */
+    changes?: RuesFieldChange[];
+    events?: RuesChangeType[];
+    error?: string;
+}
+
+export interface RuesWatchlistResult {
+    success: boolean;
+    total: number;
+    changed: number;
+    skipped: number;
+    eventsPublished: number;
+    dryRun: boolean;
+    items: RuesWatchItem[];
+    error?: string;
+}
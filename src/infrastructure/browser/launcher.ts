@@ -0,0 +1,296 @@
+import { chromium, Browser, BrowserContext, BrowserContextOptions } from 'playwright-core';
+import type { ProxyConfig } from '../config/proxies';
+
+const isLambda = !!process.env.AWS_LAMBDA_FUNCTION_NAME;
+
+// Importar @sparticuz/chromium solo si estamos en Lambda
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const chromiumPkg = isLambda ? require('@sparticuz/chromium') : null;
+
+/**
+ * Configuración del navegador compartido (variables de entorno):
+ * - BROWSER_REUSE: true | false. Mantiene el navegador abierto entre invocaciones del mismo contenedor
+ *   (por defecto true en Lambda y false en local, para que los scripts terminen)
+ * - BROWSER_MAX_CONTEXTS: contextos creados antes de relanzar el navegador para liberar memoria (por defecto 50)
+ */
+const CONFIG = {
+    args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-accelerated-2d-canvas',
+        '--disable-gpu',
+        '--window-size=1920x1080',
+        '--single-process',
+        '--no-zygote',
+        '--disable-web-security',
+        '--disable-features=IsolateOrigins,site-per-process',
+        '--disable-blink-features=AutomationControlled',
+        '--disable-background-timer-throttling',
+        '--disable-backgrounding-occluded-windows',
+        '--disable-renderer-backgrounding',
+        '--disable-ipc-flooding-protection',
+        '--disable-hang-monitor',
+        '--disable-prompt-on-repost',
+        '--disable-sync',
+        '--disable-domain-reliability',
+        '--metrics-recording-only',
+        '--no-first-run',
+        '--safebrowsing-disable-auto-update',
+        '--disable-client-side-phishing-detection',
+        '--disable-default-apps',
+        '--mute-audio',
+        '--hide-scrollbars',
+        '--disable-background-networking',
+        '--disk-cache-size=0',
+    ],
+    // Valores por defecto de cada contexto; la consulta puede reemplazarlos
+    context: {
+        locale: 'es-CO',
+        timezoneId: 'America/Bogota',
+        viewport: { width: 1920, height: 1080 }
+    },
+    defaultMaxContexts: 50,
+    healthCheckTimeout: 5000
+};
+
+/**
+ * Opciones de un contexto; `proxy` acepta el null que devuelve el pool de proxies
+ */
+export type BrowserContextConfig = Omit<BrowserContextOptions, 'proxy'> & {
+    proxy?: ProxyConfig | null;
+};
+
+export interface BrowserLauncher {
+    /**
+     * Navegador listo para crear contextos. Reutiliza el de una invocación anterior si sigue vivo
+     * y responde; si el proceso murió o no responde lo relanza.
+     */
+    acquire(options?: { headless?: boolean }): Promise<Browser>;
+    /** Contexto aislado para una consulta, con locale, zona horaria y viewport de Colombia */
+    newContext(browser: Browser, options?: BrowserContextConfig): Promise<BrowserContext>;
+    /** Devuelve el navegador: queda abierto para la siguiente invocación o se cierra si no se reutiliza */
+    release(browser: Browser): Promise<void>;
+    /** Cierra el navegador compartido */
+    close(): Promise<void>;
+}
+
+interface WarmBrowser {
+    browser: Browser;
+    headless: boolean;
+    /** Contextos creados desde que se lanzó */
+    contexts: number;
+    /** Consultas que lo tienen adquirido */
+    inUse: number;
+}
+
+let instance: BrowserLauncher | undefined;
+
+/**
+ * Devuelve el launcher configurado.
+ * La instancia (y el navegador abierto) se conserva entre invocaciones del mismo contenedor Lambda.
+ */
+export function getBrowserLauncher(): BrowserLauncher {
+    if (!instance) {
+        instance = createBrowserLauncher(process.env);
+    }
+    return instance;
+}
+
+export function createBrowserLauncher(env: NodeJS.ProcessEnv): BrowserLauncher {
+    const reuse = env.BROWSER_REUSE ? env.BROWSER_REUSE.toLowerCase() === 'true' : isLambda;
+    const maxContexts = Number(env.BROWSER_MAX_CONTEXTS) > 0 ? Number(env.BROWSER_MAX_CONTEXTS) : CONFIG.defaultMaxContexts;
+
+    let warm: WarmBrowser | null = null;
+    // Serializa acquire/release para que dos consultas simultáneas no lancen dos navegadores
+    let pending: Promise<unknown> = Promise.resolve();
+
+    const serialize = <T>(task: () => Promise<T>): Promise<T> => {
+        const result = pending.then(task);
+        pending = result.catch(() => undefined);
+        return result;
+    };
+
+    const launchShared = async (headless: boolean): Promise<WarmBrowser> => {
+        const browser = await launchBrowser(headless);
+        const launched: WarmBrowser = { browser, headless, contexts: 0, inUse: 0 };
+
+        browser.on('disconnected', () => {
+            if (warm === launched) {
+                console.warn('⚠️  El navegador compartido se desconectó; se relanzará en la siguiente consulta');
+                warm = null;
+            }
+        });
+
+        return launched;
+    };
+
+    return {
+        acquire(options = {}) {
+            const headless = isLambda || (options.headless ?? true);
+
+            if (!reuse) {
+                return launchBrowser(headless);
+            }
+
+            return serialize(async () => {
+                // Otra consulta local usa el navegador con otro modo: esta lanza uno propio
+                if (warm && warm.headless !== headless && warm.inUse > 0) {
+                    return launchBrowser(headless);
+                }
+
+                // Lambda atiende una invocación a la vez: un navegador en uso viene de una invocación
+                // que terminó por timeout sin devolverlo, y sus contextos ya no tienen dueño
+                if (isLambda && warm && warm.inUse > 0) {
+                    console.warn(`⚠️  Una invocación anterior no devolvió el navegador; se cierran ${warm.browser.contexts().length} contexto(s)`);
+                    warm.inUse = 0;
+                    await closeContexts(warm.browser);
+                }
+
+                if (warm) {
+                    const problem = await findProblem(warm, headless, maxContexts);
+                    if (problem) {
+                        console.log(`♻️  Se relanza el navegador: ${problem}`);
+                        const { browser } = warm;
+                        warm = null;
+                        await closeQuietly(browser);
+                    } else {
+                        console.log(`♨️  Reutilizando el navegador abierto (${warm.contexts} contexto(s) creados)`);
+                    }
+                }
+
+                if (!warm) {
+                    warm = await launchShared(headless);
+                }
+
+                warm.inUse++;
+                return warm.browser;
+            });
+        },
+        async newContext(browser, options = {}) {
+            const { proxy, ...contextOptions } = options;
+            const context = await browser.newContext({
+                ...CONFIG.context,
+                ...contextOptions,
+                proxy: proxy ?? undefined
+            });
+
+            if (warm?.browser === browser) {
+                warm.contexts++;
+            }
+
+            return context;
+        },
+        release(browser) {
+            return serialize(async () => {
+                if (warm?.browser !== browser) {
+                    await closeQuietly(browser);
+                    return;
+                }
+
+                warm.inUse = Math.max(0, warm.inUse - 1);
+
+                // Ningún contexto sobrevive a su consulta aunque el llamador no lo haya cerrado
+                if (warm.inUse === 0) {
+                    await closeContexts(browser);
+                }
+            });
+        },
+        close() {
+            return serialize(async () => {
+                if (warm) {
+                    const { browser } = warm;
+                    warm = null;
+                    await closeQuietly(browser);
+                }
+            });
+        }
+    };
+}
+
+/**
+ * Lanza Chromium: en Lambda con el binario y los argumentos de @sparticuz/chromium
+ */
+async function launchBrowser(headless: boolean): Promise<Browser> {
+    const startTime = Date.now();
+    let browser: Browser;
+
+    if (isLambda) {
+        console.log('Ejecutando en AWS Lambda');
+        browser = await chromium.launch({
+            args: chromiumPkg.args.concat(CONFIG.args),
+            executablePath: await chromiumPkg.executablePath(),
+            headless: true,
+        });
+    } else {
+        console.log('Ejecutando en entorno local');
+        browser = await chromium.launch({
+            headless,
+            args: CONFIG.args,
+        });
+    }
+
+    console.log(`🚀 Navegador lanzado en ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
+    return browser;
+}
+
+/**
+ * Motivo para no reutilizar el navegador abierto, o null si está sano
+ */
+async function findProblem(warm: WarmBrowser, headless: boolean, maxContexts: number): Promise<string | null> {
+    if (!warm.browser.isConnected()) {
+        return 'el proceso terminó';
+    }
+    if (warm.headless !== headless) {
+        return `se pidió headless=${headless}`;
+    }
+    if (warm.inUse === 0 && warm.contexts >= maxContexts) {
+        return `ya creó ${warm.contexts} contextos`;
+    }
+    if (!(await isResponsive(warm.browser))) {
+        return `no respondió en ${CONFIG.healthCheckTimeout / 1000}s`;
+    }
+    return null;
+}
+
+/**
+ * Health check: una llamada CDP al proceso del navegador.
+ * Detecta un Chromium colgado que Playwright aún considera conectado.
+ */
+async function isResponsive(browser: Browser): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+
+    const probe = (async () => {
+        const session = await browser.newBrowserCDPSession();
+        await session.send('Browser.getVersion');
+        await session.detach();
+        return true;
+    })();
+
+    const timeout = new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), CONFIG.healthCheckTimeout);
+    });
+
+    try {
+        return await Promise.race([probe, timeout]);
+    } catch (error) {
+        console.warn('⚠️  El navegador no respondió al health check:', error instanceof Error ? error.message : error);
+        return false;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+async function closeContexts(browser: Browser): Promise<void> {
+    await Promise.all(browser.contexts().map(context =>
+        context.close().catch(error => console.warn('⚠️  Error cerrando un contexto abandonado:', error))
+    ));
+}
+
+async function closeQuietly(browser: Browser): Promise<void> {
+    try {
+        await browser.close();
+    } catch (error) {
+        console.warn('⚠️  Error cerrando el navegador:', error);
+    }
+}
@@ -0,0 +1,181 @@
+import {
+    DynamoDBClient,
+    GetItemCommand,
+    PutItemCommand,
+    DeleteItemCommand,
+    ConditionalCheckFailedException
+} from '@aws-sdk/client-dynamodb';
+import type { RuesResult } from '../../domain/rues/interfaces';
+
+/**
+ * Configuración del caché de consultas RUES (variables de entorno):
+ * - RUES_CACHE_DRIVER: memory (por defecto) | dynamodb | none
+ * - RUES_CACHE_TTL_SECONDS: vigencia de cada resultado (por defecto 1 hora)
+ * - RUES_CACHE_TABLE: tabla DynamoDB con clave de partición `pk` (S) y TTL en `expiresAt`
+ * - RUES_CACHE_ENDPOINT: endpoint alterno, p. ej. http://localhost:8000 para DynamoDB Local
+ */
+const CONFIG = {
+    defaultTtlSeconds: 3600,
+    // Vigencia del bloqueo de un scrape en curso y espera máxima de las demás invocaciones.
+    // En Lambda la espera también se corta con el tiempo restante (ver scrapeAndCache en get-rues-data)
+    lockSeconds: 120,
+    memoryMaxEntries: 500
+};
+
+export interface RuesCacheEntry {
+    result: RuesResult;
+    cachedAt: string;
+}
+
+/**
+ * Almacén de resultados RUES.
+ * `tryLock` reserva una clave para que una sola invocación haga el scrape;
+ * el caché en memoria siempre la concede porque la coalescencia local se hace con promesas.
+ */
+export interface RuesCache {
+    readonly ttlSeconds: number;
+    readonly lockSeconds: number;
+    get(key: string): Promise<RuesCacheEntry | null>;
+    set(key: string, entry: RuesCacheEntry): Promise<void>;
+    tryLock(key: string): Promise<boolean>;
+    releaseLock(key: string): Promise<void>;
+}
+
+let instance: RuesCache | null | undefined;
+
+/**
+ * Devuelve el caché configurado (o null si está desactivado).
+ * La instancia se conserva entre invocaciones del mismo contenedor Lambda.
+ */
+export function getRuesCache(): RuesCache | null {
+    if (instance === undefined) {
+        instance = createRuesCache(process.env);
+    }
+    return instance;
+}
+
+export function createRuesCache(env: NodeJS.ProcessEnv): RuesCache | null {
+    const driver = (env.RUES_CACHE_DRIVER || 'memory').toLowerCase();
+    const ttlSeconds = Number(env.RUES_CACHE_TTL_SECONDS) > 0 ? Number(env.RUES_CACHE_TTL_SECONDS) : CONFIG.defaultTtlSeconds;
+
+    if (driver === 'none') {
+        return null;
+    }
+
+    if (driver === 'memory') {
+        return createMemoryCache(ttlSeconds);
+    }
+
+    if (driver === 'dynamodb') {
+        if (!env.RUES_CACHE_TABLE) {
+            throw new Error('RUES_CACHE_TABLE es obligatorio para el caché dynamodb');
+        }
+        return createDynamoCache(env.RUES_CACHE_TABLE, ttlSeconds, env.RUES_CACHE_ENDPOINT);
+    }
+
+    throw new Error(`RUES_CACHE_DRIVER no soportado: ${driver}`);
+}
+
+function createMemoryCache(ttlSeconds: number): RuesCache {
+    const entries = new Map<string, { entry: RuesCacheEntry; expiresAt: number }>();
+
+    return {
+        ttlSeconds,
+        lockSeconds: CONFIG.lockSeconds,
+        async get(key) {
+            const stored = entries.get(key);
+            if (!stored) {
+                return null;
+            }
+            if (stored.expiresAt <= Date.now()) {
+                entries.delete(key);
+                return null;
+            }
+            return stored.entry;
+        },
+        async set(key, entry) {
+            // Map conserva el orden de inserción: se descarta la entrada más antigua
+            entries.delete(key);
+            if (entries.size >= CONFIG.memoryMaxEntries) {
+                const oldest = entries.keys().next().value;
+                if (oldest !== undefined) {
+                    entries.delete(oldest);
+                }
+            }
+            entries.set(key, { entry, expiresAt: Date.now() + ttlSeconds * 1000 });
+        },
+        async tryLock() {
+            return true;
+        },
+        async releaseLock() {
+            return;
+        }
+    };
+}
+
+/**
+ * Caché en DynamoDB. El resultado se guarda como JSON en `result`;
+ * los bloqueos son ítems `lock#<clave>` que expiran solos si la invocación muere.
+ */
+function createDynamoCache(table: string, ttlSeconds: number, endpoint?: string): RuesCache {
+    const client = new DynamoDBClient(endpoint ? { endpoint } : {});
+    const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+    return {
+        ttlSeconds,
+        lockSeconds: CONFIG.lockSeconds,
+        async get(key) {
+            const { Item } = await client.send(new GetItemCommand({
+                TableName: table,
+                Key: { pk: { S: key } },
+                ConsistentRead: true
+            }));
+
+            // El TTL de DynamoDB borra con retraso: se valida la expiración al leer
+            if (!Item?.result?.S || Number(Item.expiresAt?.N) <= nowSeconds()) {
+                return null;
+            }
+
+            return {
+                result: JSON.parse(Item.result.S) as RuesResult,
+                cachedAt: Item.cachedAt?.S ?? ''
+            };
+        },
+        async set(key, entry) {
+            await client.send(new PutItemCommand({
+                TableName: table,
+                Item: {
+                    pk: { S: key },
+                    result: { S: JSON.stringify(entry.result) },
+                    cachedAt: { S: entry.cachedAt },
+                    expiresAt: { N: String(nowSeconds() + ttlSeconds) }
+                }
+            }));
+        },
+        async tryLock(key) {
+            try {
+                await client.send(new PutItemCommand({
+                    TableName: table,
+                    Item: {
+                        pk: { S: `lock#${key}` },
+                        expiresAt: { N: String(nowSeconds() + CONFIG.lockSeconds) }
+                    },
+                    ConditionExpression: 'attribute_not_exists(pk) OR expiresAt < :now',
+                    ExpressionAttributeValues: { ':now': { N: String(nowSeconds()) } }
+                }));
+                return true;
+            } catch (error: unknown) {
+                if (error instanceof ConditionalCheckFailedException) {
+                    return false;
+                }
+                throw error;
+            }
+        },
+        async releaseLock(key) {
+            await client.send(new DeleteItemCommand({
+                TableName: table,
+                Key: { pk: { S: `lock#${key}` } }
+            }));
+        }
+    };
+}
@@ -0,0 +1,238 @@
+import type { CaptchaBalance, CaptchaSolution, CaptchaSolver, CaptchaSolverOptions, TurnstileTask } from '../../domain/captcha/interfaces';
+import { createCaptchaError, getCaptchaErrorCode, isFatalCaptchaError, CaptchaErrorCode } from '../../domain/captcha/errors';
+import { createTaskApiSolver } from './task-api';
+import { assertCaptchaBudget, recordCaptchaSolve, recordCaptchaVerdict } from './usage';
+
+/**
+ * Configuración de los proveedores de captcha (variables de entorno):
+ * - CAPTCHA_PROVIDERS: orden de los proveedores separados por coma (por defecto anticaptcha,2captcha,capsolver)
+ * - ANTICAPTCHA_API_KEY, CAPTCHA_2_API_KEY, CAPSOLVER_API_KEY: API key de cada proveedor; sin key se omite
+ * - CAPTCHA_TIMEOUT_SECONDS: espera máxima por proveedor (por defecto 120)
+ * - CAPTCHA_POLL_INTERVAL_SECONDS: intervalo entre consultas del resultado (por defecto 5)
+ * - CAPTCHA_PRICES: precio en USD por 1000 Turnstile, p. ej. `anticaptcha:2,capsolver:1.2` (reemplaza el de cada definición)
+ * - CAPTCHA_MAX_RETRIES: veces que un flujo vuelve a resolver el captcha cuando el sitio rechaza el token (por defecto 2)
+ */
+const CONFIG = {
+    defaultOrder: ['anticaptcha', '2captcha', 'capsolver'],
+    defaultTimeoutSeconds: 120,
+    defaultPollIntervalSeconds: 5,
+    defaultMaxRetries: 2
+};
+
+export interface CaptchaProviderDefinition {
+    /** Variables de entorno con la API key, en orden de preferencia */
+    apiKeyEnv: string[];
+    /** Precio de lista en USD por 1000 Turnstile resueltos, para estimar el costo */
+    costPer1000Usd: number;
+    create(apiKey: string): CaptchaSolver;
+}
+
+interface ConfiguredSolver {
+    solver: CaptchaSolver;
+    costPer1000Usd: number;
+}
+
+const PROVIDERS = new Map<string, CaptchaProviderDefinition>([
+    ['anticaptcha', {
+        apiKeyEnv: ['ANTICAPTCHA_API_KEY'],
+        costPer1000Usd: 2,
+        create: apiKey => createTaskApiSolver({
+            name: 'anticaptcha',
+            baseUrl: 'https://api.anti-captcha.com',
+            turnstileTaskType: 'TurnstileTaskProxyless',
+            // Sin reportMethods: reportIncorrectRecaptcha/reportCorrectRecaptcha solo aplican a tareas de reCAPTCHA
+            apiKey
+        })
+    }],
+    ['2captcha', {
+        // CAPTCHA_API_KEY es el nombre que usaba la versión anterior
+        apiKeyEnv: ['CAPTCHA_2_API_KEY', 'CAPTCHA_API_KEY'],
+        costPer1000Usd: 1.45,
+        create: apiKey => createTaskApiSolver({
+            name: '2captcha',
+            baseUrl: 'https://api.2captcha.com',
+            turnstileTaskType: 'TurnstileTaskProxyless',
+            apiKey,
+            reportMethods: { incorrect: 'reportIncorrect', correct: 'reportCorrect' }
+        })
+    }],
+    ['capsolver', {
+        apiKeyEnv: ['CAPSOLVER_API_KEY'],
+        costPer1000Usd: 1.2,
+        create: apiKey => createTaskApiSolver({
+            name: 'capsolver',
+            baseUrl: 'https://api.capsolver.com',
+            turnstileTaskType: 'AntiTurnstileTaskProxyLess',
+            apiKey
+        })
+    }],
+]);
+
+/**
+ * Agrega o reemplaza un proveedor; queda disponible para CAPTCHA_PROVIDERS
+ */
+export function registerCaptchaProvider(name: string, definition: CaptchaProviderDefinition): void {
+    PROVIDERS.set(name.toLowerCase(), definition);
+}
+
+/**
+ * Construye los proveedores en el orden configurado, omitiendo los que no tienen API key
+ */
+export function createCaptchaSolvers(env: NodeJS.ProcessEnv = process.env): { solvers: ConfiguredSolver[]; options: CaptchaSolverOptions } {
+    const order = env.CAPTCHA_PROVIDERS
+        ? env.CAPTCHA_PROVIDERS.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+        : CONFIG.defaultOrder;
+    const prices = parsePrices(env.CAPTCHA_PRICES);
+
+    const solvers: ConfiguredSolver[] = [];
+
+    order.forEach(name => {
+        const definition = PROVIDERS.get(name);
+        if (!definition) {
+            throw createCaptchaError(`Proveedor de captcha desconocido en CAPTCHA_PROVIDERS: ${name}`, 'CAPTCHA_CONFIG');
+        }
+
+        const apiKey = definition.apiKeyEnv.map(variable => env[variable]).find(Boolean);
+        if (!apiKey) {
+            console.log(`   ⚠️  ${name} omitido: falta ${definition.apiKeyEnv[0]}`);
+            return;
+        }
+
+        solvers.push({
+            solver: definition.create(apiKey),
+            costPer1000Usd: prices[name] ?? definition.costPer1000Usd
+        });
+    });
+
+    return {
+        solvers,
+        options: {
+            timeoutMs: positiveNumber(env.CAPTCHA_TIMEOUT_SECONDS, CONFIG.defaultTimeoutSeconds) * 1000,
+            pollIntervalMs: positiveNumber(env.CAPTCHA_POLL_INTERVAL_SECONDS, CONFIG.defaultPollIntervalSeconds) * 1000
+        }
+    };
+}
+
+/**
+ * Resuelve un Turnstile probando los proveedores en orden y registra cada intento.
+ * Lanza BUDGET_EXCEEDED si se agotó el presupuesto, CAPTCHA_CONFIG si no hay proveedores
+ * y CAPTCHA_UNSOLVED si ninguno devolvió solución. Si todos fallaron por la cuenta (API key o saldo)
+ * se lanza el código del primero, porque reintentar no lo resuelve.
+ */
+export async function solveTurnstile(task: TurnstileTask, env: NodeJS.ProcessEnv = process.env): Promise<CaptchaSolution> {
+    await assertCaptchaBudget(env);
+
+    const { solvers, options } = createCaptchaSolvers(env);
+
+    if (solvers.length === 0) {
+        throw createCaptchaError('No hay proveedores de captcha configurados (revise CAPTCHA_PROVIDERS y las API keys)', 'CAPTCHA_CONFIG');
+    }
+
+    const failures: Array<{ provider: string; code: CaptchaErrorCode; error: unknown }> = [];
+
+    for (const [index, { solver, costPer1000Usd }] of solvers.entries()) {
+        const startTime = Date.now();
+
+        try {
+            console.log(`   🤖 Intentando resolver con ${solver.name}...`);
+            const solution = await solver.solveTurnstile(task, options);
+            const durationMs = Date.now() - startTime;
+            console.log(`   ✅ ${solver.name} resolvió el captcha en ${(durationMs / 1000).toFixed(1)}s`);
+
+            await recordCaptchaSolve({
+                provider: solver.name,
+                attempt: index + 1,
+                outcome: 'SOLVED',
+                durationMs,
+                costUsd: costPer1000Usd / 1000,
+                solvedAt: new Date().toISOString()
+            }, env);
+
+            return solution;
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            const code = getCaptchaErrorCode(error);
+            console.log(`   ⚠️  ${solver.name} falló (${code}):`, errorMessage);
+            failures.push({ provider: solver.name, code, error });
+
+            await recordCaptchaSolve({
+                provider: solver.name,
+                attempt: index + 1,
+                outcome: code,
+                durationMs: Date.now() - startTime,
+                costUsd: 0,
+                solvedAt: new Date().toISOString()
+            }, env);
+        }
+    }
+
+    const summary = failures.map(({ provider, code }) => `${provider}: ${code}`).join(', ');
+    const code = failures.every(({ error }) => isFatalCaptchaError(error)) ? failures[0].code : 'CAPTCHA_UNSOLVED';
+
+    throw createCaptchaError(`Ningún proveedor resolvió el captcha (${summary})`, code);
+}
+
+/**
+ * Informa al proveedor si el sitio aceptó el token. Un rechazo permite pedir el reembolso de la tarea
+ * y mejora la calidad del proveedor; nunca interrumpe el flujo.
+ */
+export async function reportCaptchaSolution(solution: CaptchaSolution, accepted: boolean, env: NodeJS.ProcessEnv = process.env): Promise<void> {
+    recordCaptchaVerdict(solution.provider, accepted, env);
+
+    try {
+        const configured = createCaptchaSolvers(env).solvers.find(({ solver }) => solver.name === solution.provider);
+        const report = accepted ? configured?.solver.reportCorrect : configured?.solver.reportIncorrect;
+
+        if (!configured || !report) {
+            console.log(`   ℹ️  ${solution.provider} no recibe reportes de tokens`);
+            return;
+        }
+
+        await report.call(configured.solver, solution.taskId);
+        console.log(`   📝 Token ${accepted ? 'aceptado' : 'rechazado'} reportado a ${solution.provider} (tarea ${solution.taskId})`);
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`   ⚠️  No se pudo reportar el token a ${solution.provider}:`, errorMessage);
+    }
+}
+
+/**
+ * Veces que se vuelve a resolver el captcha después de un rechazo del sitio
+ */
+export function getCaptchaMaxRetries(env: NodeJS.ProcessEnv = process.env): number {
+    const value = env.CAPTCHA_MAX_RETRIES ? Number(env.CAPTCHA_MAX_RETRIES) : NaN;
+    return Number.isInteger(value) && value >= 0 ? value : CONFIG.defaultMaxRetries;
+}
+
+/**
+ * Consulta el saldo de cada proveedor configurado; un error en uno no detiene los demás
+ */
+export async function getCaptchaBalances(env: NodeJS.ProcessEnv = process.env): Promise<CaptchaBalance[]> {
+    const { solvers } = createCaptchaSolvers(env);
+
+    return Promise.all(solvers.map(async ({ solver }): Promise<CaptchaBalance> => {
+        try {
+            return { provider: solver.name, balance: await solver.getBalance() };
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return { provider: solver.name, error: `${getCaptchaErrorCode(error)}: ${errorMessage}` };
+        }
+    }));
+}
+
+function parsePrices(value: string | undefined): Record<string, number> {
+    const prices: Record<string, number> = {};
+
+    (value || '').split(',').forEach(entry => {
+        const [name, price] = entry.split(':').map(part => part.trim());
+        if (name && price && Number(price) >= 0) {
+            prices[name.toLowerCase()] = Number(price);
+        }
+    });
+
+    return prices;
+}
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+    return Number(value) > 0 ? Number(value) : fallback;
+}
@@ -0,0 +1,134 @@
+import axios from 'axios';
+import type { CaptchaSolver, CaptchaSolution } from '../../domain/captcha/interfaces';
+import { createCaptchaError, CaptchaErrorCode } from '../../domain/captcha/errors';
+
+const CONFIG = {
+    requestTimeout: 15000
+};
+
+/**
+ * Códigos de error de las APIs createTask (AntiCaptcha, 2Captcha, CapSolver) y su código tipado
+ */
+const ERROR_PATTERNS: Array<{ code: CaptchaErrorCode; pattern: RegExp }> = [
+    { code: 'CAPTCHA_NO_BALANCE', pattern: /BALANCE/ },
+    // Anclado a los códigos de la API key: ERROR_RECAPTCHA_INVALID_SITEKEY y similares son del captcha, no de la cuenta
+    { code: 'CAPTCHA_AUTH', pattern: /^ERROR_(KEY_DOES_NOT_EXIST|WRONG_USER_KEY|KEY_DENIED_ACCESS|INVALID_CLIENT_KEY|ACCESS_DENIED|ACCOUNT_SUSPENDED|IP_NOT_ALLOWED|IP_BLOCKED|IP_BANNED)$/ },
+    { code: 'CAPTCHA_UNSOLVABLE', pattern: /UNSOLVABLE|TASK_TIMEOUT/ },
+];
+
+export interface TaskApiConfig {
+    name: string;
+    /** URL base de la API, sin `/createTask` */
+    baseUrl: string;
+    /** Tipo de tarea Turnstile sin proxy que espera el proveedor */
+    turnstileTaskType: string;
+    apiKey: string;
+    /** Métodos para reportar tokens rechazados y aceptados; sin ellos el proveedor no recibe reportes */
+    reportMethods?: { incorrect: string; correct: string };
+}
+
+interface TaskApiResponse {
+    errorId?: number;
+    errorCode?: string;
+    errorDescription?: string;
+    taskId?: string | number;
+    status?: string;
+    solution?: { token?: string };
+    balance?: number;
+}
+
+/**
+ * Proveedor que usa el protocolo createTask/getTaskResult.
+ * AntiCaptcha, 2Captcha (API v2) y CapSolver exponen el mismo contrato; solo cambian la URL y el tipo de tarea.
+ */
+export function createTaskApiSolver(config: TaskApiConfig): CaptchaSolver {
+    const { reportMethods } = config;
+
+    const post = async (path: string, body: Record<string, unknown>): Promise<TaskApiResponse> => {
+        const response = await axios.post<TaskApiResponse>(`${config.baseUrl}/${path}`, {
+            clientKey: config.apiKey,
+            ...body
+        }, { timeout: CONFIG.requestTimeout });
+
+        const data = response.data;
+        if (data.errorId) {
+            const errorCode = data.errorCode ?? 'ERROR_UNKNOWN';
+            const match = ERROR_PATTERNS.find(({ pattern }) => pattern.test(errorCode));
+            throw createCaptchaError(
+                `${errorCode}${data.errorDescription ? ` - ${data.errorDescription}` : ''}`,
+                match ? match.code : 'CAPTCHA_PROVIDER_ERROR',
+                config.name
+            );
+        }
+        return data;
+    };
+
+    return {
+        name: config.name,
+        async solveTurnstile(task, options): Promise<CaptchaSolution> {
+            const created = await post('createTask', {
+                task: {
+                    type: config.turnstileTaskType,
+                    websiteURL: task.pageUrl,
+                    websiteKey: task.siteKey
+                }
+            });
+
+            if (created.taskId === undefined) {
+                throw createCaptchaError('createTask no devolvió taskId', 'CAPTCHA_PROVIDER_ERROR', config.name);
+            }
+
+            const taskId = String(created.taskId);
+            const deadline = Date.now() + options.timeoutMs;
+            console.log(`   ⏳ Esperando solución del captcha (${config.name}, tarea ${taskId})...`);
+
+            while (Date.now() < deadline) {
+                await new Promise(resolve => setTimeout(resolve, options.pollIntervalMs));
+
+                let result: TaskApiResponse;
+                try {
+                    result = await post('getTaskResult', { taskId: created.taskId });
+                } catch (error: unknown) {
+                    // Un error de red al consultar no invalida la tarea, que ya está pagada
+                    if (!axios.isAxiosError(error)) {
+                        throw error;
+                    }
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    console.log(`   ⚠️  ${config.name}: error consultando la tarea (${errorMessage}); reintentando`);
+                    continue;
+                }
+
+                if (result.status === 'ready') {
+                    if (!result.solution?.token) {
+                        throw createCaptchaError('la tarea terminó sin token', 'CAPTCHA_PROVIDER_ERROR', config.name);
+                    }
+                    return { provider: config.name, taskId, token: result.solution.token };
+                }
+            }
+
+            throw createCaptchaError(`sin solución después de ${options.timeoutMs / 1000}s`, 'CAPTCHA_TIMEOUT', config.name);
+        },
+        async getBalance(): Promise<number> {
+            const result = await post('getBalance', {});
+            if (typeof result.balance !== 'number') {
+                throw createCaptchaError('getBalance no devolvió balance', 'CAPTCHA_PROVIDER_ERROR', config.name);
+            }
+            return result.balance;
+        },
+        ...(reportMethods && {
+            async reportIncorrect(taskId: string): Promise<void> {
+                await post(reportMethods.incorrect, { taskId: toApiTaskId(taskId) });
+            },
+            async reportCorrect(taskId: string): Promise<void> {
+                await post(reportMethods.correct, { taskId: toApiTaskId(taskId) });
+            }
+        })
+    };
+}
+
+/**
+ * Las APIs devuelven el taskId como número y lo esperan igual en los reportes
+ */
+function toApiTaskId(taskId: string): string | number {
+    return /^\d+$/.test(taskId) ? Number(taskId) : taskId;
+}
@@ -0,0 +1,139 @@
+import { DynamoDBClient, GetItemCommand, UpdateItemCommand } from '@aws-sdk/client-dynamodb';
+import type { CaptchaSolveRecord, CaptchaSpend } from '../../domain/captcha/interfaces';
+
+/**
+ * Configuración del acumulado de gasto en captcha (variables de entorno):
+ * - CAPTCHA_USAGE_STORE: memory (por defecto) | dynamodb. En Lambda con presupuesto (CAPTCHA_BUDGET_*)
+ *   debe ser dynamodb: el acumulado en memoria es por contenedor y se reinicia en cada arranque en frío
+ * - CAPTCHA_USAGE_TABLE: tabla DynamoDB con clave de partición `pk` (S) y TTL en `expiresAt`
+ * - CAPTCHA_USAGE_ENDPOINT: endpoint alterno, p. ej. http://localhost:8000 para DynamoDB Local
+ * El acumulado en memoria solo sirve para pruebas locales.
+ */
+const CONFIG = {
+    // Los ítems del día y del mes se conservan un tiempo después de cerrar el periodo
+    dayRetentionDays: 40,
+    monthRetentionDays: 400
+};
+
+// Colombia no tiene horario de verano: UTC-5 todo el año
+const COLOMBIA_OFFSET_MS = -5 * 60 * 60 * 1000;
+
+export interface CaptchaUsageStore {
+    add(record: CaptchaSolveRecord): Promise<void>;
+    getSpend(now?: Date): Promise<CaptchaSpend>;
+}
+
+let instance: CaptchaUsageStore | undefined;
+
+/**
+ * Devuelve el almacén configurado; la instancia se conserva entre invocaciones del mismo contenedor
+ */
+export function getCaptchaUsageStore(): CaptchaUsageStore {
+    if (!instance) {
+        instance = createCaptchaUsageStore(process.env);
+    }
+    return instance;
+}
+
+export function createCaptchaUsageStore(env: NodeJS.ProcessEnv): CaptchaUsageStore {
+    const type = (env.CAPTCHA_USAGE_STORE || 'memory').toLowerCase();
+    const hasBudget = Number(env.CAPTCHA_BUDGET_DAILY_USD) > 0 || Number(env.CAPTCHA_BUDGET_MONTHLY_USD) > 0;
+
+    if (type === 'memory' && hasBudget && env.AWS_LAMBDA_FUNCTION_NAME) {
+        throw new Error('CAPTCHA_USAGE_STORE=dynamodb es obligatorio en Lambda cuando hay presupuesto de captcha');
+    }
+
+    if (type === 'memory') {
+        return createMemoryStore();
+    }
+
+    if (type === 'dynamodb') {
+        if (!env.CAPTCHA_USAGE_TABLE) {
+            throw new Error('CAPTCHA_USAGE_TABLE es obligatorio para el acumulado en dynamodb');
+        }
+        return createDynamoStore(env.CAPTCHA_USAGE_TABLE, env.CAPTCHA_USAGE_ENDPOINT);
+    }
+
+    throw new Error(`CAPTCHA_USAGE_STORE no soportado: ${type}`);
+}
+
+/**
+ * Día (YYYY-MM-DD) y mes (YYYY-MM) en hora de Colombia
+ */
+export function usagePeriods(date: Date): { day: string; month: string } {
+    const local = new Date(date.getTime() + COLOMBIA_OFFSET_MS).toISOString();
+    return { day: local.substring(0, 10), month: local.substring(0, 7) };
+}
+
+function createMemoryStore(): CaptchaUsageStore {
+    const totals = new Map<string, number>();
+
+    return {
+        async add(record) {
+            const { day, month } = usagePeriods(new Date(record.solvedAt));
+            [`day#${day}`, `month#${month}`].forEach(key => {
+                totals.set(key, (totals.get(key) ?? 0) + record.costUsd);
+            });
+        },
+        async getSpend(now = new Date()) {
+            const { day, month } = usagePeriods(now);
+            return {
+                day,
+                month,
+                dailyUsd: totals.get(`day#${day}`) ?? 0,
+                monthlyUsd: totals.get(`month#${month}`) ?? 0
+            };
+        }
+    };
+}
+
+/**
+ * Un ítem por día (`day#YYYY-MM-DD`) y por mes (`month#YYYY-MM`) con el costo acumulado
+ * y los intentos resueltos y fallidos, en total y por proveedor (`solves_<proveedor>`, `failures_<proveedor>`)
+ */
+function createDynamoStore(table: string, endpoint?: string): CaptchaUsageStore {
+    const client = new DynamoDBClient(endpoint ? { endpoint } : {});
+    const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+    const readCost = async (pk: string) => {
+        const { Item } = await client.send(new GetItemCommand({
+            TableName: table,
+            Key: { pk: { S: pk } },
+            ConsistentRead: true
+        }));
+        return Number(Item?.costUsd?.N ?? 0);
+    };
+
+    return {
+        async add(record) {
+            const { day, month } = usagePeriods(new Date(record.solvedAt));
+            const solved = record.outcome === 'SOLVED' ? '1' : '0';
+
+            const periods: Array<[string, number]> = [
+                [`day#${day}`, CONFIG.dayRetentionDays],
+                [`month#${month}`, CONFIG.monthRetentionDays]
+            ];
+
+            await Promise.all(periods.map(([pk, retentionDays]) => client.send(new UpdateItemCommand({
+                TableName: table,
+                Key: { pk: { S: pk } },
+                UpdateExpression: 'ADD costUsd :cost, solves :solved, failures :failed, #providerSolves :solved, #providerFailures :failed SET expiresAt = if_not_exists(expiresAt, :expiresAt)',
+                ExpressionAttributeNames: {
+                    '#providerSolves': `solves_${record.provider}`,
+                    '#providerFailures': `failures_${record.provider}`
+                },
+                ExpressionAttributeValues: {
+                    ':cost': { N: String(record.costUsd) },
+                    ':solved': { N: solved },
+                    ':failed': { N: solved === '1' ? '0' : '1' },
+                    ':expiresAt': { N: String(nowSeconds() + retentionDays * 86400) }
+                }
+            }))));
+        },
+        async getSpend(now = new Date()) {
+            const { day, month } = usagePeriods(now);
+            const [dailyUsd, monthlyUsd] = await Promise.all([readCost(`day#${day}`), readCost(`month#${month}`)]);
+            return { day, month, dailyUsd, monthlyUsd };
+        }
+    };
+}
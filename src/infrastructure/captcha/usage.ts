@@ -0,0 +1,111 @@
+import type { CaptchaSolveRecord } from '../../domain/captcha/interfaces';
+import { createCaptchaError } from '../../domain/captcha/errors';
+import { getCaptchaUsageStore, CaptchaUsageStore } from './usage-store';
+
+/**
+ * Métricas y presupuesto de captcha (variables de entorno):
+ * - CAPTCHA_BUDGET_DAILY_USD / CAPTCHA_BUDGET_MONTHLY_USD: tope de gasto; sin valor no hay tope
+ * - CAPTCHA_METRICS_NAMESPACE: namespace de CloudWatch para las métricas (por defecto ax1-services/captcha)
+ */
+const CONFIG = {
+    defaultNamespace: 'ax1-services/captcha'
+};
+
+/**
+ * Registra un intento de resolución: una línea en formato EMF (CloudWatch la convierte en métricas
+ * por proveedor y resultado) y el costo en el acumulado del día y del mes.
+ * Una falla del acumulado solo se registra en el log.
+ */
+export async function recordCaptchaSolve(record: CaptchaSolveRecord, env: NodeJS.ProcessEnv = process.env): Promise<void> {
+    const solved = record.outcome === 'SOLVED';
+
+    console.log(JSON.stringify({
+        _aws: {
+            Timestamp: new Date(record.solvedAt).getTime(),
+            CloudWatchMetrics: [{
+                Namespace: env.CAPTCHA_METRICS_NAMESPACE || CONFIG.defaultNamespace,
+                Dimensions: [['provider'], ['provider', 'outcome']],
+                Metrics: [
+                    { Name: 'SolveTime', Unit: 'Milliseconds' },
+                    { Name: 'Cost', Unit: 'None' },
+                    { Name: 'Solves', Unit: 'Count' },
+                    { Name: 'Failures', Unit: 'Count' }
+                ]
+            }]
+        },
+        provider: record.provider,
+        outcome: record.outcome,
+        attempt: record.attempt,
+        SolveTime: record.durationMs,
+        Cost: record.costUsd,
+        Solves: solved ? 1 : 0,
+        Failures: solved ? 0 : 1
+    }));
+
+    try {
+        await getCaptchaUsageStore().add(record);
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn('⚠️  No se pudo acumular el gasto de captcha:', errorMessage);
+    }
+}
+
+/**
+ * Registra si el sitio aceptó o rechazó el token de un proveedor (métricas Accepted/Rejected por proveedor)
+ */
+export function recordCaptchaVerdict(provider: string, accepted: boolean, env: NodeJS.ProcessEnv = process.env): void {
+    console.log(JSON.stringify({
+        _aws: {
+            Timestamp: Date.now(),
+            CloudWatchMetrics: [{
+                Namespace: env.CAPTCHA_METRICS_NAMESPACE || CONFIG.defaultNamespace,
+                Dimensions: [['provider']],
+                Metrics: [
+                    { Name: 'Accepted', Unit: 'Count' },
+                    { Name: 'Rejected', Unit: 'Count' }
+                ]
+            }]
+        },
+        provider,
+        Accepted: accepted ? 1 : 0,
+        Rejected: accepted ? 0 : 1
+    }));
+}
+
+/**
+ * Lanza BUDGET_EXCEEDED si el gasto del día o del mes alcanzó su tope.
+ * Se llama antes de lanzar el navegador para no gastar en un login que no podrá resolver el captcha.
+ * Un almacén mal configurado lanza CAPTCHA_CONFIG; si el acumulado no responde se permite continuar.
+ */
+export async function assertCaptchaBudget(env: NodeJS.ProcessEnv = process.env): Promise<void> {
+    const dailyBudget = Number(env.CAPTCHA_BUDGET_DAILY_USD);
+    const monthlyBudget = Number(env.CAPTCHA_BUDGET_MONTHLY_USD);
+
+    if (!(dailyBudget > 0) && !(monthlyBudget > 0)) {
+        return;
+    }
+
+    let store: CaptchaUsageStore;
+    try {
+        store = getCaptchaUsageStore();
+    } catch (error: unknown) {
+        throw createCaptchaError(error instanceof Error ? error.message : String(error), 'CAPTCHA_CONFIG');
+    }
+
+    let spend;
+    try {
+        spend = await store.getSpend();
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn('⚠️  No se pudo leer el gasto de captcha; se continúa sin verificar el presupuesto:', errorMessage);
+        return;
+    }
+
+    if (dailyBudget > 0 && spend.dailyUsd >= dailyBudget) {
+        throw createCaptchaError(`Presupuesto diario de captcha agotado: US$ ${spend.dailyUsd.toFixed(2)} de US$ ${dailyBudget.toFixed(2)} (${spend.day})`, 'BUDGET_EXCEEDED');
+    }
+
+    if (monthlyBudget > 0 && spend.monthlyUsd >= monthlyBudget) {
+        throw createCaptchaError(`Presupuesto mensual de captcha agotado: US$ ${spend.monthlyUsd.toFixed(2)} de US$ ${monthlyBudget.toFixed(2)} (${spend.month})`, 'BUDGET_EXCEEDED');
+    }
+}
@@ -0,0 +1,473 @@
+/**
+ * Clasificación Industrial Internacional Uniforme, Revisión 4 Adaptada para Colombia (CIIU Rev. 4 A.C., DANE).
+ * Se incluyen secciones, divisiones y grupos con su nombre, y la lista de clases (4 dígitos) para validar
+ * los códigos; el nombre de la clase es el que reporta RUES.
+ */
+
+/** Secciones y el rango de divisiones que agrupan */
+export const CIIU_SECTIONS: Array<{ codigo: string; nombre: string; divisiones: [number, number] }> = [
+    { codigo: 'A', nombre: 'Agricultura, ganadería, caza, silvicultura y pesca', divisiones: [1, 3] },
+    { codigo: 'B', nombre: 'Explotación de minas y canteras', divisiones: [5, 9] },
+    { codigo: 'C', nombre: 'Industrias manufactureras', divisiones: [10, 33] },
+    { codigo: 'D', nombre: 'Suministro de electricidad, gas, vapor y aire acondicionado', divisiones: [35, 35] },
+    { codigo: 'E', nombre: 'Distribución de agua; evacuación y tratamiento de aguas residuales, gestión de desechos y actividades de saneamiento ambiental', divisiones: [36, 39] },
+    { codigo: 'F', nombre: 'Construcción', divisiones: [41, 43] },
+    { codigo: 'G', nombre: 'Comercio al por mayor y al por menor; reparación de vehículos automotores y motocicletas', divisiones: [45, 47] },
+    { codigo: 'H', nombre: 'Transporte y almacenamiento', divisiones: [49, 53] },
+    { codigo: 'I', nombre: 'Alojamiento y servicios de comida', divisiones: [55, 56] },
+    { codigo: 'J', nombre: 'Información y comunicaciones', divisiones: [58, 63] },
+    { codigo: 'K', nombre: 'Actividades financieras y de seguros', divisiones: [64, 66] },
+    { codigo: 'L', nombre: 'Actividades inmobiliarias', divisiones: [68, 68] },
+    { codigo: 'M', nombre: 'Actividades profesionales, científicas y técnicas', divisiones: [69, 75] },
+    { codigo: 'N', nombre: 'Actividades de servicios administrativos y de apoyo', divisiones: [77, 82] },
+    { codigo: 'O', nombre: 'Administración pública y defensa; planes de seguridad social de afiliación obligatoria', divisiones: [84, 84] },
+    { codigo: 'P', nombre: 'Educación', divisiones: [85, 85] },
+    { codigo: 'Q', nombre: 'Actividades de atención de la salud humana y de asistencia social', divisiones: [86, 88] },
+    { codigo: 'R', nombre: 'Actividades artísticas, de entretenimiento y recreación', divisiones: [90, 93] },
+    { codigo: 'S', nombre: 'Otras actividades de servicios', divisiones: [94, 96] },
+    { codigo: 'T', nombre: 'Actividades de los hogares individuales en calidad de empleadores; actividades no diferenciadas de los hogares individuales como productores de bienes y servicios para uso propio', divisiones: [97, 98] },
+    { codigo: 'U', nombre: 'Actividades de organizaciones y entidades extraterritoriales', divisiones: [99, 99] },
+];
+
+export const CIIU_DIVISIONS: Record<string, string> = {
+    '01': 'Agricultura, ganadería, caza y actividades de servicios conexas',
+    '02': 'Silvicultura y extracción de madera',
+    '03': 'Pesca y acuicultura',
+    '05': 'Extracción de carbón de piedra y lignito',
+    '06': 'Extracción de petróleo crudo y gas natural',
+    '07': 'Extracción de minerales metalíferos',
+    '08': 'Extracción de otras minas y canteras',
+    '09': 'Actividades de servicios de apoyo para la explotación de minas y canteras',
+    '10': 'Elaboración de productos alimenticios',
+    '11': 'Elaboración de bebidas',
+    '12': 'Elaboración de productos de tabaco',
+    '13': 'Fabricación de productos textiles',
+    '14': 'Confección de prendas de vestir',
+    '15': 'Curtido y recurtido de cueros; fabricación de calzado; fabricación de artículos de viaje, maletas, bolsos de mano y artículos similares, y fabricación de artículos de talabartería y guarnicionería; adobo y teñido de pieles',
+    '16': 'Transformación de la madera y fabricación de productos de madera y de corcho, excepto muebles; fabricación de artículos de cestería y espartería',
+    '17': 'Fabricación de papel, cartón y productos de papel y cartón',
+    '18': 'Actividades de impresión y de producción de copias a partir de grabaciones originales',
+    '19': 'Coquización, fabricación de productos de la refinación del petróleo y actividad de mezcla de combustibles',
+    '20': 'Fabricación de sustancias y productos químicos',
+    '21': 'Fabricación de productos farmacéuticos, sustancias químicas medicinales y productos botánicos de uso farmacéutico',
+    '22': 'Fabricación de productos de caucho y de plástico',
+    '23': 'Fabricación de otros productos minerales no metálicos',
+    '24': 'Fabricación de productos metalúrgicos básicos',
+    '25': 'Fabricación de productos elaborados de metal, excepto maquinaria y equipo',
+    '26': 'Fabricación de productos informáticos, electrónicos y ópticos',
+    '27': 'Fabricación de aparatos y equipo eléctrico',
+    '28': 'Fabricación de maquinaria y equipo n.c.p.',
+    '29': 'Fabricación de vehículos automotores, remolques y semirremolques',
+    '30': 'Fabricación de otros tipos de equipo de transporte',
+    '31': 'Fabricación de muebles, colchones y somieres',
+    '32': 'Otras industrias manufactureras',
+    '33': 'Instalación, mantenimiento y reparación especializado de maquinaria y equipo',
+    '35': 'Suministro de electricidad, gas, vapor y aire acondicionado',
+    '36': 'Captación, tratamiento y distribución de agua',
+    '37': 'Evacuación y tratamiento de aguas residuales',
+    '38': 'Recolección, tratamiento y disposición de desechos, recuperación de materiales',
+    '39': 'Actividades de saneamiento ambiental y otros servicios de gestión de desechos',
+    '41': 'Construcción de edificios',
+    '42': 'Obras de ingeniería civil',
+    '43': 'Actividades especializadas para la construcción de edificios y obras de ingeniería civil',
+    '45': 'Comercio, mantenimiento y reparación de vehículos automotores y motocicletas, sus partes, piezas y accesorios',
+    '46': 'Comercio al por mayor y en comisión o por contrata, excepto el comercio de vehículos automotores y motocicletas',
+    '47': 'Comercio al por menor (incluso el comercio al por menor de combustibles), excepto el de vehículos automotores y motocicletas',
+    '49': 'Transporte terrestre; transporte por tuberías',
+    '50': 'Transporte acuático',
+    '51': 'Transporte aéreo',
+    '52': 'Almacenamiento y actividades complementarias al transporte',
+    '53': 'Correo y servicios de mensajería',
+    '55': 'Alojamiento',
+    '56': 'Actividades de servicios de comidas y bebidas',
+    '58': 'Actividades de edición',
+    '59': 'Actividades cinematográficas, de video y producción de programas de televisión, grabación de sonido y edición de música',
+    '60': 'Actividades de programación, transmisión y/o difusión',
+    '61': 'Telecomunicaciones',
+    '62': 'Desarrollo de sistemas informáticos (planificación, análisis, diseño, programación, pruebas), consultoría informática y actividades relacionadas',
+    '63': 'Actividades de servicios de información',
+    '64': 'Actividades de servicios financieros, excepto las de seguros y de pensiones',
+    '65': 'Seguros (incluso el reaseguro), seguros sociales y fondos de pensiones, excepto la seguridad social',
+    '66': 'Actividades auxiliares de las actividades de servicios financieros',
+    '68': 'Actividades inmobiliarias',
+    '69': 'Actividades jurídicas y de contabilidad',
+    '70': 'Actividades de administración empresarial; actividades de consultoría de gestión',
+    '71': 'Actividades de arquitectura e ingeniería; ensayos y análisis técnicos',
+    '72': 'Investigación científica y desarrollo',
+    '73': 'Publicidad y estudios de mercado',
+    '74': 'Otras actividades profesionales, científicas y técnicas',
+    '75': 'Actividades veterinarias',
+    '77': 'Actividades de alquiler y arrendamiento',
+    '78': 'Actividades de empleo',
+    '79': 'Actividades de las agencias de viajes, operadores turísticos, servicios de reserva y actividades relacionadas',
+    '80': 'Actividades de seguridad e investigación privada',
+    '81': 'Actividades de servicios a edificios y paisajismo (jardines, zonas verdes)',
+    '82': 'Actividades administrativas y de apoyo de oficina y otras actividades de apoyo a las empresas',
+    '84': 'Administración pública y defensa; planes de seguridad social de afiliación obligatoria',
+    '85': 'Educación',
+    '86': 'Actividades de atención de la salud humana',
+    '87': 'Actividades de atención residencial medicalizada',
+    '88': 'Actividades de asistencia social sin alojamiento',
+    '90': 'Actividades creativas, artísticas y de entretenimiento',
+    '91': 'Actividades de bibliotecas, archivos, museos y otras actividades culturales',
+    '92': 'Actividades de juegos de azar y apuestas',
+    '93': 'Actividades deportivas y actividades recreativas y de esparcimiento',
+    '94': 'Actividades de asociaciones',
+    '95': 'Mantenimiento y reparación de computadores, efectos personales y enseres domésticos',
+    '96': 'Otras actividades de servicios personales',
+    '97': 'Actividades de los hogares individuales como empleadores de personal doméstico',
+    '98': 'Actividades no diferenciadas de los hogares individuales como productores de bienes y servicios para uso propio',
+    '99': 'Actividades de organizaciones y entidades extraterritoriales',
+};
+
+export const CIIU_GROUPS: Record<string, string> = {
+    '011': 'Cultivos agrícolas transitorios',
+    '012': 'Cultivos agrícolas permanentes',
+    '013': 'Propagación de plantas (actividades de los viveros, excepto viveros forestales)',
+    '014': 'Ganadería',
+    '015': 'Explotación mixta (agrícola y pecuaria)',
+    '016': 'Actividades de apoyo a la agricultura y la ganadería, y actividades posteriores a la cosecha',
+    '017': 'Caza ordinaria y mediante trampas y actividades de servicios conexas',
+    '021': 'Silvicultura y otras actividades forestales',
+    '022': 'Extracción de madera',
+    '023': 'Recolección de productos forestales diferentes a la madera',
+    '024': 'Servicios de apoyo a la silvicultura',
+    '031': 'Pesca',
+    '032': 'Acuicultura',
+    '051': 'Extracción de hulla (carbón de piedra)',
+    '052': 'Extracción de carbón lignito',
+    '061': 'Extracción de petróleo crudo',
+    '062': 'Extracción de gas natural',
+    '071': 'Extracción de minerales de hierro',
+    '072': 'Extracción de minerales metalíferos no ferrosos',
+    '081': 'Extracción de piedra, arena, arcillas, cal, yeso, caolín, bentonitas y similares',
+    '082': 'Extracción de esmeraldas, piedras preciosas y semipreciosas',
+    '089': 'Extracción de otros minerales no metálicos n.c.p.',
+    '091': 'Actividades de apoyo para la extracción de petróleo y de gas natural',
+    '099': 'Actividades de apoyo para otras actividades de explotación de minas y canteras',
+    '101': 'Procesamiento y conservación de carne, pescado, crustáceos y moluscos',
+    '102': 'Procesamiento y conservación de frutas, legumbres, hortalizas y tubérculos',
+    '103': 'Elaboración de aceites y grasas de origen vegetal y animal',
+    '104': 'Elaboración de productos lácteos',
+    '105': 'Elaboración de productos de molinería, almidones y productos derivados del almidón',
+    '106': 'Elaboración de productos de café',
+    '107': 'Elaboración de azúcar y panela',
+    '108': 'Elaboración de otros productos alimenticios',
+    '109': 'Elaboración de alimentos preparados para animales',
+    '110': 'Elaboración de bebidas',
+    '120': 'Elaboración de productos de tabaco',
+    '131': 'Preparación, hilatura, tejeduría y acabado de productos textiles',
+    '139': 'Fabricación de otros productos textiles',
+    '141': 'Confección de prendas de vestir, excepto prendas de piel',
+    '142': 'Fabricación de artículos de piel',
+    '143': 'Fabricación de artículos de punto y ganchillo',
+    '151': 'Curtido y recurtido de cueros; recurtido y teñido de pieles; fabricación de artículos de viaje, bolsos de mano y artículos similares, y fabricación de artículos de talabartería y guarnicionería',
+    '152': 'Fabricación de calzado',
+    '161': 'Aserrado, acepillado e impregnación de la madera',
+    '162': 'Fabricación de hojas de madera para enchapado; fabricación de tableros contrachapados, tableros laminados, tableros de partículas y otros tableros y paneles',
+    '163': 'Fabricación de partes y piezas de madera, de carpintería y ebanistería para la construcción',
+    '164': 'Fabricación de recipientes de madera',
+    '169': 'Fabricación de otros productos de madera; fabricación de artículos de corcho, cestería y espartería',
+    '170': 'Fabricación de papel, cartón y productos de papel y cartón',
+    '181': 'Actividades de impresión y actividades de servicios relacionados con la impresión',
+    '182': 'Producción de copias a partir de grabaciones originales',
+    '191': 'Fabricación de productos de hornos de coque',
+    '192': 'Fabricación de productos de la refinación del petróleo',
+    '201': 'Fabricación de sustancias químicas básicas, abonos y compuestos inorgánicos nitrogenados, plásticos y caucho sintético en formas primarias',
+    '202': 'Fabricación de otros productos químicos',
+    '203': 'Fabricación de fibras sintéticas y artificiales',
+    '210': 'Fabricación de productos farmacéuticos, sustancias químicas medicinales y productos botánicos de uso farmacéutico',
+    '221': 'Fabricación de productos de caucho',
+    '222': 'Fabricación de productos de plástico',
+    '231': 'Fabricación de vidrio y productos de vidrio',
+    '239': 'Fabricación de productos minerales no metálicos n.c.p.',
+    '241': 'Industrias básicas de hierro y de acero',
+    '242': 'Industrias básicas de metales preciosos y de metales no ferrosos',
+    '243': 'Fundición de metales',
+    '251': 'Fabricación de productos metálicos para uso estructural, tanques, depósitos y generadores de vapor',
+    '252': 'Fabricación de armas y municiones',
+    '259': 'Fabricación de otros productos elaborados de metal y actividades de servicios relacionadas con el trabajo de metales',
+    '261': 'Fabricación de componentes y tableros electrónicos',
+    '262': 'Fabricación de computadoras y de equipo periférico',
+    '263': 'Fabricación de equipos de comunicación',
+    '264': 'Fabricación de aparatos electrónicos de consumo',
+    '265': 'Fabricación de equipo de medición, prueba, navegación y control; fabricación de relojes',
+    '266': 'Fabricación de equipo de irradiación y equipo electrónico de uso médico y terapéutico',
+    '267': 'Fabricación de instrumentos ópticos y equipo fotográfico',
+    '268': 'Fabricación de medios magnéticos y ópticos para almacenamiento de datos',
+    '271': 'Fabricación de motores, generadores y transformadores eléctricos y de aparatos de distribución y control de la energía eléctrica',
+    '272': 'Fabricación de pilas, baterías y acumuladores eléctricos',
+    '273': 'Fabricación de hilos y cables aislados y sus dispositivos',
+    '274': 'Fabricación de equipos eléctricos de iluminación',
+    '275': 'Fabricación de aparatos de uso doméstico',
+    '279': 'Fabricación de otros tipos de equipo eléctrico n.c.p.',
+    '281': 'Fabricación de maquinaria y equipo de uso general',
+    '282': 'Fabricación de maquinaria y equipo de uso especial',
+    '291': 'Fabricación de vehículos automotores y sus motores',
+    '292': 'Fabricación de carrocerías para vehículos automotores; fabricación de remolques y semirremolques',
+    '293': 'Fabricación de partes, piezas (autopartes) y accesorios (lujos) para vehículos automotores',
+    '301': 'Construcción de barcos y otras embarcaciones',
+    '302': 'Fabricación de locomotoras y de material rodante para ferrocarriles',
+    '303': 'Fabricación de aeronaves, naves espaciales y de maquinaria conexa',
+    '304': 'Fabricación de vehículos militares de combate',
+    '309': 'Fabricación de otros tipos de equipo de transporte n.c.p.',
+    '311': 'Fabricación de muebles',
+    '312': 'Fabricación de colchones y somieres',
+    '321': 'Fabricación de joyas, bisutería y artículos conexos',
+    '322': 'Fabricación de instrumentos musicales',
+    '323': 'Fabricación de artículos y equipo para la práctica del deporte',
+    '324': 'Fabricación de juegos, juguetes y rompecabezas',
+    '325': 'Fabricación de instrumentos, aparatos y materiales médicos y odontológicos (incluido mobiliario)',
+    '329': 'Otras industrias manufactureras n.c.p.',
+    '331': 'Mantenimiento y reparación especializado de productos elaborados en metal y de maquinaria y equipo',
+    '332': 'Instalación especializada de maquinaria y equipo industrial',
+    '351': 'Generación, transmisión, distribución y comercialización de energía eléctrica',
+    '352': 'Producción de gas; distribución de combustibles gaseosos por tuberías',
+    '353': 'Suministro de vapor y aire acondicionado',
+    '360': 'Captación, tratamiento y distribución de agua',
+    '370': 'Evacuación y tratamiento de aguas residuales',
+    '381': 'Recolección de desechos',
+    '382': 'Tratamiento y disposición de desechos',
+    '383': 'Recuperación de materiales',
+    '390': 'Actividades de saneamiento ambiental y otros servicios de gestión de desechos',
+    '411': 'Construcción de edificios',
+    '421': 'Construcción de carreteras y vías de ferrocarril',
+    '422': 'Construcción de proyectos de servicio público',
+    '429': 'Construcción de otras obras de ingeniería civil',
+    '431': 'Demolición y preparación del terreno',
+    '432': 'Instalaciones eléctricas, de fontanería y otras instalaciones especializadas',
+    '433': 'Terminación y acabado de edificios y obras de ingeniería civil',
+    '439': 'Otras actividades especializadas para la construcción de edificios y obras de ingeniería civil',
+    '451': 'Comercio de vehículos automotores',
+    '452': 'Mantenimiento y reparación de vehículos automotores',
+    '453': 'Comercio de partes, piezas (autopartes) y accesorios (lujos) para vehículos automotores',
+    '454': 'Comercio, mantenimiento y reparación de motocicletas y de sus partes, piezas y accesorios',
+    '461': 'Comercio al por mayor a cambio de una retribución o por contrata',
+    '462': 'Comercio al por mayor de materias primas agropecuarias; animales vivos',
+    '463': 'Comercio al por mayor de alimentos, bebidas y tabaco',
+    '464': 'Comercio al por mayor de artículos y enseres domésticos (incluidas prendas de vestir)',
+    '465': 'Comercio al por mayor de equipo, partes y piezas',
+    '466': 'Comercio al por mayor especializado de otros productos',
+    '469': 'Comercio al por mayor no especializado',
+    '471': 'Comercio al por menor en establecimientos no especializados',
+    '472': 'Comercio al por menor de alimentos (víveres en general), bebidas y tabaco, en establecimientos especializados',
+    '473': 'Comercio al por menor de combustible, lubricantes, aditivos y productos de limpieza para automotores, en establecimientos especializados',
+    '474': 'Comercio al por menor de equipos de informática y de comunicaciones, en establecimientos especializados',
+    '475': 'Comercio al por menor de otros enseres domésticos en establecimientos especializados',
+    '476': 'Comercio al por menor de artículos culturales y de entretenimiento, en establecimientos especializados',
+    '477': 'Comercio al por menor de otros productos en establecimientos especializados',
+    '478': 'Comercio al por menor en puestos de venta móviles',
+    '479': 'Comercio al por menor no realizado en establecimientos, puestos de venta o mercados',
+    '491': 'Transporte férreo',
+    '492': 'Transporte terrestre público automotor',
+    '493': 'Transporte por tuberías',
+    '501': 'Transporte marítimo y de cabotaje',
+    '502': 'Transporte fluvial',
+    '511': 'Transporte aéreo de pasajeros',
+    '512': 'Transporte aéreo de carga',
+    '521': 'Almacenamiento y depósito',
+    '522': 'Actividades de las estaciones, vías y servicios complementarios para el transporte',
+    '531': 'Actividades postales nacionales',
+    '532': 'Actividades de mensajería',
+    '551': 'Actividades de alojamiento de estancias cortas',
+    '552': 'Actividades de zonas de camping y parques para vehículos recreacionales',
+    '553': 'Servicio por horas',
+    '559': 'Otros tipos de alojamiento n.c.p.',
+    '561': 'Actividades de restaurantes, cafeterías y servicio móvil de comidas',
+    '562': 'Actividades de catering para eventos y otros servicios de comidas',
+    '563': 'Expendio de bebidas alcohólicas para el consumo dentro del establecimiento',
+    '581': 'Edición de libros, publicaciones periódicas y otras actividades de edición',
+    '582': 'Edición de programas de informática (software)',
+    '591': 'Actividades de producción de películas cinematográficas, video y producción de programas, anuncios y comerciales de televisión',
+    '592': 'Actividades de grabación de sonido y edición de música',
+    '601': 'Actividades de programación y transmisión en el servicio de radiodifusión sonora',
+    '602': 'Actividades de programación y transmisión de televisión',
+    '611': 'Actividades de telecomunicaciones alámbricas',
+    '612': 'Actividades de telecomunicaciones inalámbricas',
+    '613': 'Actividades de telecomunicación satelital',
+    '619': 'Otras actividades de telecomunicaciones',
+    '620': 'Desarrollo de sistemas informáticos (planificación, análisis, diseño, programación, pruebas), consultoría informática y actividades relacionadas',
+    '631': 'Procesamiento de datos, alojamiento (hosting) y actividades relacionadas; portales web',
+    '639': 'Otras actividades de servicio de información',
+    '641': 'Intermediación monetaria',
+    '642': 'Otros tipos de intermediación monetaria',
+    '643': 'Fideicomisos, fondos (incluye fondos de cesantías) y entidades financieras similares',
+    '649': 'Otras actividades de servicio financiero, excepto las de seguros y pensiones',
+    '651': 'Seguros y capitalización',
+    '652': 'Servicios de seguros sociales de salud y riesgos laborales',
+    '653': 'Servicios de seguros sociales de pensiones',
+    '661': 'Actividades auxiliares de las actividades de servicios financieros, excepto las de seguros y pensiones',
+    '662': 'Actividades de servicios auxiliares de los servicios de seguros y pensiones',
+    '663': 'Actividades de administración de fondos',
+    '681': 'Actividades inmobiliarias realizadas con bienes propios o arrendados',
+    '682': 'Actividades inmobiliarias realizadas a cambio de una retribución o por contrata',
+    '691': 'Actividades jurídicas',
+    '692': 'Actividades de contabilidad, teneduría de libros, auditoría financiera y asesoría tributaria',
+    '701': 'Actividades de administración empresarial',
+    '702': 'Actividades de consultoría de gestión',
+    '711': 'Actividades de arquitectura e ingeniería y otras actividades conexas de consultoría técnica',
+    '712': 'Ensayos y análisis técnicos',
+    '721': 'Investigaciones y desarrollo experimental en el campo de las ciencias naturales y la ingeniería',
+    '722': 'Investigaciones y desarrollo experimental en el campo de las ciencias sociales y las humanidades',
+    '731': 'Publicidad',
+    '732': 'Estudios de mercado y realización de encuestas de opinión pública',
+    '741': 'Actividades especializadas de diseño',
+    '742': 'Actividades de fotografía',
+    '749': 'Otras actividades profesionales, científicas y técnicas n.c.p.',
+    '750': 'Actividades veterinarias',
+    '771': 'Alquiler y arrendamiento de vehículos automotores',
+    '772': 'Alquiler y arrendamiento de efectos personales y enseres domésticos',
+    '773': 'Alquiler y arrendamiento de otros tipos de maquinaria, equipo y bienes tangibles n.c.p.',
+    '774': 'Arrendamiento de propiedad intelectual y productos similares, excepto obras protegidas por derechos de autor',
+    '781': 'Actividades de agencias de empleo',
+    '782': 'Actividades de agencias de empleo temporal',
+    '783': 'Otras actividades de suministro de recurso humano',
+    '791': 'Actividades de las agencias de viajes y operadores turísticos',
+    '799': 'Otros servicios de reserva y actividades relacionadas',
+    '801': 'Actividades de seguridad privada',
+    '802': 'Actividades de servicios de sistemas de seguridad',
+    '803': 'Actividades de detectives e investigadores privados',
+    '811': 'Actividades combinadas de apoyo a instalaciones',
+    '812': 'Actividades de limpieza',
+    '813': 'Actividades de paisajismo y servicios de mantenimiento conexos',
+    '821': 'Actividades administrativas y de apoyo de oficina',
+    '822': 'Actividades de centros de llamadas (Call center)',
+    '823': 'Organización de convenciones y eventos comerciales',
+    '829': 'Actividades de servicios de apoyo a las empresas n.c.p.',
+    '841': 'Administración del Estado y aplicación de la política económica y social de la comunidad',
+    '842': 'Prestación de servicios a la comunidad en general',
+    '843': 'Actividades de planes de seguridad social de afiliación obligatoria',
+    '851': 'Educación de la primera infancia, preescolar y básica primaria',
+    '852': 'Educación secundaria y de formación laboral',
+    '853': 'Establecimientos que combinan diferentes niveles de educación',
+    '854': 'Educación superior',
+    '855': 'Otros tipos de educación',
+    '856': 'Actividades de apoyo a la educación',
+    '861': 'Actividades de hospitales y clínicas, con internación',
+    '862': 'Actividades de práctica médica y odontológica, sin internación',
+    '869': 'Otras actividades de atención relacionadas con la salud humana',
+    '871': 'Actividades de atención residencial medicalizada de tipo general',
+    '872': 'Actividades de atención residencial, para el cuidado de pacientes con retardo mental, enfermedad mental y consumo de sustancias psicoactivas',
+    '873': 'Actividades de atención en instituciones para el cuidado de personas mayores y/o discapacitadas',
+    '879': 'Otras actividades de atención en instituciones con alojamiento',
+    '881': 'Actividades de asistencia social sin alojamiento para personas mayores y discapacitadas',
+    '889': 'Otras actividades de asistencia social sin alojamiento',
+    '900': 'Actividades creativas, artísticas y de entretenimiento',
+    '910': 'Actividades de bibliotecas, archivos, museos y otras actividades culturales',
+    '920': 'Actividades de juegos de azar y apuestas',
+    '931': 'Actividades deportivas',
+    '932': 'Otras actividades recreativas y de esparcimiento',
+    '941': 'Actividades de asociaciones empresariales y de empleadores, y asociaciones profesionales',
+    '942': 'Actividades de sindicatos de empleados',
+    '949': 'Actividades de otras asociaciones',
+    '951': 'Mantenimiento y reparación de computadores y equipo de comunicaciones',
+    '952': 'Mantenimiento y reparación de efectos personales y enseres domésticos',
+    '960': 'Otras actividades de servicios personales',
+    '970': 'Actividades de los hogares individuales como empleadores de personal doméstico',
+    '981': 'Actividades no diferenciadas de los hogares individuales como productores de bienes para uso propio',
+    '982': 'Actividades no diferenciadas de los hogares individuales como productores de servicios para uso propio',
+    '990': 'Actividades de organizaciones y entidades extraterritoriales',
+};
+
+/**
+ * Clases (4 dígitos) del catálogo. Que el grupo exista no basta: 4712 no es una clase aunque 471 sea un grupo.
+ */
+export const CIIU_CLASSES: ReadonlySet<string> = new Set([
+    '0111', '0112', '0113', '0114', '0115', '0119', '0121', '0122', '0123', '0124', '0125', '0126',
+    '0127', '0128', '0129', '0130', '0141', '0142', '0143', '0144', '0145', '0149', '0150', '0161',
+    '0162', '0163', '0164', '0170',
+    '0210', '0220', '0230', '0240',
+    '0311', '0312', '0321', '0322',
+    '0510', '0520',
+    '0610', '0620',
+    '0710', '0721', '0722', '0723', '0729',
+    '0811', '0812', '0820', '0891', '0892', '0899',
+    '0910', '0990',
+    '1011', '1012', '1020', '1030', '1040', '1051', '1052', '1061', '1062', '1063', '1071', '1072',
+    '1081', '1082', '1083', '1084', '1089', '1090',
+    '1101', '1102', '1103', '1104',
+    '1200',
+    '1311', '1312', '1313', '1391', '1392', '1393', '1394', '1399',
+    '1410', '1420', '1430',
+    '1511', '1512', '1513', '1521', '1522', '1523',
+    '1610', '1620', '1630', '1640', '1690',
+    '1701', '1702', '1709',
+    '1811', '1812', '1820',
+    '1910', '1921', '1922',
+    '2011', '2012', '2013', '2014', '2021', '2022', '2023', '2029', '2030',
+    '2100',
+    '2211', '2212', '2219', '2221', '2229',
+    '2310', '2391', '2392', '2393', '2394', '2395', '2396', '2399',
+    '2410', '2421', '2429', '2431', '2432',
+    '2511', '2512', '2513', '2520', '2591', '2592', '2593', '2599',
+    '2610', '2620', '2630', '2640', '2651', '2652', '2660', '2670', '2680',
+    '2711', '2712', '2720', '2731', '2732', '2740', '2750', '2790',
+    '2811', '2812', '2813', '2814', '2815', '2816', '2817', '2818', '2819', '2821', '2822', '2823',
+    '2824', '2825', '2826', '2829',
+    '2910', '2920', '2930',
+    '3011', '3012', '3020', '3030', '3040', '3091', '3092', '3099',
+    '3110', '3120',
+    '3210', '3220', '3230', '3240', '3250', '3290',
+    '3311', '3312', '3313', '3314', '3315', '3319', '3320',
+    '3511', '3512', '3513', '3514', '3520', '3530',
+    '3600',
+    '3700',
+    '3811', '3812', '3821', '3822', '3830',
+    '3900',
+    '4111', '4112',
+    '4210', '4220', '4290',
+    '4311', '4312', '4321', '4322', '4329', '4330', '4390',
+    '4511', '4512', '4520', '4530', '4541', '4542',
+    '4610', '4620', '4631', '4632', '4641', '4642', '4643', '4644', '4645', '4649', '4651', '4652',
+    '4653', '4659', '4661', '4662', '4663', '4664', '4665', '4669', '4690',
+    '4711', '4719', '4721', '4722', '4723', '4724', '4729', '4731', '4732', '4741', '4742', '4751',
+    '4752', '4753', '4754', '4755', '4759', '4761', '4762', '4769', '4771', '4772', '4773', '4774',
+    '4775', '4781', '4782', '4789', '4791', '4792', '4799',
+    '4911', '4912', '4921', '4922', '4923', '4930',
+    '5011', '5012', '5021', '5022',
+    '5111', '5112', '5121', '5122',
+    '5210', '5221', '5222', '5223', '5224', '5229',
+    '5310', '5320',
+    '5511', '5512', '5513', '5514', '5519', '5520', '5530', '5590',
+    '5611', '5612', '5613', '5619', '5621', '5629', '5630',
+    '5811', '5812', '5813', '5819', '5820',
+    '5911', '5912', '5913', '5914', '5920',
+    '6010', '6020',
+    '6110', '6120', '6130', '6190',
+    '6201', '6202', '6209',
+    '6311', '6312', '6391', '6399',
+    '6411', '6412', '6421', '6422', '6423', '6424', '6431', '6432', '6491', '6492', '6493', '6494',
+    '6495', '6499',
+    '6511', '6512', '6513', '6514', '6521', '6522', '6531', '6532',
+    '6611', '6612', '6613', '6614', '6615', '6619', '6621', '6629', '6630',
+    '6810', '6820',
+    '6910', '6920',
+    '7010', '7020',
+    '7110', '7120',
+    '7210', '7220',
+    '7310', '7320',
+    '7410', '7420', '7490',
+    '7500',
+    '7710', '7721', '7722', '7729', '7730', '7740',
+    '7810', '7820', '7830',
+    '7911', '7912', '7990',
+    '8010', '8020', '8030',
+    '8110', '8121', '8129', '8130',
+    '8211', '8219', '8220', '8230', '8291', '8292', '8299',
+    '8411', '8412', '8413', '8414', '8415', '8421', '8422', '8423', '8424', '8430',
+    '8511', '8512', '8513', '8521', '8522', '8523', '8530', '8541', '8542', '8543', '8544', '8551',
+    '8552', '8553', '8559', '8560',
+    '8610', '8621', '8622', '8691', '8692', '8699',
+    '8710', '8720', '8730', '8790',
+    '8810', '8890',
+    '9001', '9002', '9003', '9004', '9005', '9006', '9007', '9008',
+    '9101', '9102', '9103',
+    '9200',
+    '9311', '9312', '9319', '9321', '9329',
+    '9411', '9412', '9420', '9491', '9492', '9499',
+    '9511', '9512', '9521', '9522', '9523', '9524', '9529',
+    '9601', '9602', '9603', '9609',
+    '9700',
+    '9810', '9820',
+    '9900',
+]);
@@ -0,0 +1,145 @@
+import type { CiiuCatalogEntry, CiiuClasificacion, CiiuNodo } from '../../domain/ciiu/interfaces';
+import type { RuesActividadEconomica } from '../../domain/rues/interfaces';
+import { CIIU_CLASSES, CIIU_DIVISIONS, CIIU_GROUPS, CIIU_SECTIONS } from './catalog';
+
+const CONFIG = {
+    defaultSearchLimit: 20
+};
+
+/** Tipo de actividad según su posición en RUES, si la etiqueta no lo indica */
+const ACTIVITY_TYPES: Array<RuesActividadEconomica['tipo']> = ['principal', 'secundaria'];
+
+/**
+ * Tipo según la etiqueta del DOM ("Actividad principal") o la clave del JSON ("cod_ciiu_act_econ_pri"),
+ * sin tildes ni separadores
+ */
+const LABEL_TYPES: Array<{ tipo: NonNullable<RuesActividadEconomica['tipo']>; pattern: RegExp }> = [
+    { tipo: 'principal', pattern: /principal|pri$/ },
+    { tipo: 'secundaria', pattern: /secundari|sec$/ },
+    { tipo: 'otra', pattern: /otra|adicional/ },
+];
+
+/**
+ * Normaliza un código CIIU a sus 4 dígitos.
+ * Acepta la letra de la sección como prefijo ("G4711") y separadores ("47.11").
+ * Devuelve null si no quedan exactamente 4 dígitos.
+ */
+export function normalizeCiiuCode(value: string | number | null | undefined): string | null {
+    const text = String(value ?? '').trim().toUpperCase().replace(/^[A-U]\s*/, '').replace(/[\s.-]/g, '');
+    return /^\d{4}$/.test(text) ? text : null;
+}
+
+/**
+ * Devuelve la sección, división y grupo de una clase CIIU, o null si el código no es una clase del catálogo.
+ */
+export function lookupCiiu(code: string | number | null | undefined): CiiuClasificacion | null {
+    const clase = normalizeCiiuCode(code);
+    if (!clase) {
+        return null;
+    }
+
+    const divisionCode = clase.substring(0, 2);
+    const groupCode = clase.substring(0, 3);
+    const section = findSection(divisionCode);
+
+    if (!CIIU_CLASSES.has(clase) || !section || !CIIU_DIVISIONS[divisionCode] || !CIIU_GROUPS[groupCode]) {
+        return null;
+    }
+
+    return {
+        clase,
+        seccion: section,
+        division: { codigo: divisionCode, nombre: CIIU_DIVISIONS[divisionCode] },
+        grupo: { codigo: groupCode, nombre: CIIU_GROUPS[groupCode] },
+    };
+}
+
+export function isValidCiiu(code: string | number | null | undefined): boolean {
+    return lookupCiiu(code) !== null;
+}
+
+/**
+ * Busca secciones, divisiones y grupos por código o por palabras del nombre.
+ * La comparación ignora mayúsculas y tildes; todas las palabras deben aparecer en el nombre.
+ */
+export function searchCiiu(query: string, limit: number = CONFIG.defaultSearchLimit): CiiuCatalogEntry[] {
+    const text = normalizeText(query);
+    if (!text) {
+        return [];
+    }
+
+    const code = text.replace(/\s/g, '');
+    const words = text.split(' ');
+    const matches = (entry: CiiuCatalogEntry) => {
+        // "4711" devuelve la división 47 y el grupo 471; "47" devuelve la división y sus grupos
+        if (/^\d+$/.test(code)) {
+            return entry.codigo.startsWith(code) || code.startsWith(entry.codigo);
+        }
+        // Una letra devuelve la sección y su contenido
+        if (/^[a-u]$/.test(code)) {
+            return entry.seccion.toLowerCase() === code;
+        }
+        return words.every(word => normalizeText(entry.nombre).includes(word));
+    };
+
+    return listEntries().filter(matches).slice(0, limit);
+}
+
+/**
+ * Agrega a cada actividad de RUES su tipo (principal, secundaria u otra), si el código es válido
+ * y los nombres de sección, división y grupo. La descripción de la clase se conserva la de RUES.
+ * El tipo sale de `label` o de la etiqueta que acompaña al código; sin etiqueta se usa la posición.
+ */
+export function enrichEconomicActivities(activities: Array<{ ciiu: string; description: string; label?: string }> | undefined): RuesActividadEconomica[] | undefined {
+    if (!activities) {
+        return undefined;
+    }
+
+    return activities.map((activity, index) => {
+        // La etiqueta del DOM puede traer texto junto al código ("Actividad principal 6201")
+        const classification = lookupCiiu(activity.ciiu) ?? lookupCiiu(activity.ciiu.match(/(?:^|\D)(\d{4})(?!\d)/)?.[1]);
+
+        return {
+            ciiu: classification?.clase ?? activity.ciiu,
+            description: activity.description,
+            tipo: typeFromLabel(activity.label ?? activity.ciiu) ?? ACTIVITY_TYPES[index] ?? 'otra',
+            valido: classification !== null,
+            ...(classification && {
+                seccion: classification.seccion,
+                division: classification.division,
+                grupo: classification.grupo,
+            }),
+        };
+    });
+}
+
+function typeFromLabel(label: string): RuesActividadEconomica['tipo'] | undefined {
+    const normalized = normalizeText(label).replace(/[^a-z0-9]/g, '');
+    return LABEL_TYPES.find(({ pattern }) => pattern.test(normalized))?.tipo;
+}
+
+function findSection(divisionCode: string): CiiuNodo | null {
+    const division = Number(divisionCode);
+    const section = CIIU_SECTIONS.find(({ divisiones: [from, to] }) => division >= from && division <= to);
+    return section ? { codigo: section.codigo, nombre: section.nombre } : null;
+}
+
+function listEntries(): CiiuCatalogEntry[] {
+    const sections = CIIU_SECTIONS.map(({ codigo, nombre }): CiiuCatalogEntry => ({ nivel: 'seccion', codigo, nombre, seccion: codigo }));
+    const divisions = Object.entries(CIIU_DIVISIONS).map(([codigo, nombre]): CiiuCatalogEntry => ({
+        nivel: 'division', codigo, nombre, seccion: findSection(codigo)?.codigo ?? ''
+    }));
+    const groups = Object.entries(CIIU_GROUPS).map(([codigo, nombre]): CiiuCatalogEntry => ({
+        nivel: 'grupo', codigo, nombre, seccion: findSection(codigo.substring(0, 2))?.codigo ?? ''
+    }));
+
+    return [...sections, ...divisions, ...groups];
+}
+
+function normalizeText(text: string): string {
+    return text.toLowerCase()
+        .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^\w\s]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
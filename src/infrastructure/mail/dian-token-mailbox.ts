@@ -0,0 +1,157 @@
+import { ImapFlow } from 'imapflow';
+import { simpleParser } from 'mailparser';
+import type { DianMailboxConfig } from '../../domain/dian/interfaces';
+
+const DEFAULTS = {
+    port: 993,
+    mailbox: 'INBOX',
+    sender: 'dian.gov.co',
+    timeoutMs: 120000,
+    pollIntervalMs: 5000,
+    // Tolerancia entre el reloj de la Lambda y el del servidor de correo
+    clockSkewMs: 60000,
+    // SEARCH SINCE compara solo el día, en la zona horaria del servidor: se busca desde el día
+    // anterior y la hora exacta se filtra con la fecha interna de cada mensaje
+    searchLookbackMs: 24 * 60 * 60 * 1000,
+};
+
+const TOKEN_LINK_PATTERN = /https:\/\/catalogo-vpfe(?:-hab)?\.dian\.gov\.co\/User\/AuthToken\?[^\s"'<>]+/i;
+
+export interface DianTokenEmail {
+    tokenUrl: string;
+    receivedAt: string;
+}
+
+/**
+ * Obtiene la configuración del buzón desde el payload o desde una referencia.
+ * La referencia apunta a la variable de entorno DIAN_MAILBOX_<REF> con el JSON de configuración.
+ */
+export function resolveMailboxConfig(mailbox?: DianMailboxConfig, mailboxRef?: string): DianMailboxConfig | null {
+    let config: DianMailboxConfig | undefined = mailbox;
+
+    if (!config && mailboxRef) {
+        const envName = `DIAN_MAILBOX_${mailboxRef.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+        const raw = process.env[envName];
+
+        if (!raw) {
+            throw new Error(`No existe la configuración de buzón ${envName}`);
+        }
+
+        try {
+            config = JSON.parse(raw) as DianMailboxConfig;
+        } catch (error) {
+            throw new Error(`La configuración de buzón ${envName} no es un JSON válido`);
+        }
+    }
+
+    if (!config) {
+        return null;
+    }
+
+    const missingFields: string[] = [];
+
+    if (!config.host) missingFields.push('host');
+    if (!config.user) missingFields.push('user');
+    if (!config.password) missingFields.push('password');
+
+    if (missingFields.length) {
+        throw new Error(`Configuración de buzón incompleta: ${missingFields.join(', ')}`);
+    }
+
+    return config;
+}
+
+/**
+ * Consulta el buzón hasta encontrar el correo de la DIAN recibido después de `requestedAt`
+ * y devuelve el enlace de acceso que contiene.
+ */
+export async function waitForDianTokenEmail(config: DianMailboxConfig, requestedAt: Date): Promise<DianTokenEmail> {
+    const timeoutMs = config.timeoutMs ?? DEFAULTS.timeoutMs;
+    const pollIntervalMs = config.pollIntervalMs ?? DEFAULTS.pollIntervalMs;
+    const sender = config.sender ?? DEFAULTS.sender;
+    const mailboxPath = config.mailbox ?? DEFAULTS.mailbox;
+    const notBefore = requestedAt.getTime() - DEFAULTS.clockSkewMs;
+    const searchSince = new Date(requestedAt.getTime() - DEFAULTS.searchLookbackMs);
+    const deadline = Date.now() + timeoutMs;
+    const inspected = new Set<number>();
+
+    const client = new ImapFlow({
+        host: config.host,
+        port: config.port ?? DEFAULTS.port,
+        secure: config.secure ?? true,
+        auth: {
+            user: config.user,
+            pass: config.password,
+        },
+        tls: {
+            rejectUnauthorized: config.rejectUnauthorized ?? true,
+        },
+        logger: false,
+    });
+
+    console.log(`📬 Conectando al buzón ${config.user}@${config.host}...`);
+    await client.connect();
+
+    try {
+        while (Date.now() < deadline) {
+            const lock = await client.getMailboxLock(mailboxPath);
+
+            try {
+                const uids = await client.search({ from: sender, since: searchSince }, { uid: true });
+                const pending = (uids || []).filter(uid => !inspected.has(uid)).sort((a, b) => b - a);
+
+                for (const uid of pending) {
+                    inspected.add(uid);
+
+                    const message = await client.fetchOne(String(uid), { source: true, internalDate: true }, { uid: true });
+                    if (!message || !message.source) {
+                        continue;
+                    }
+
+                    const receivedAt = message.internalDate ? new Date(message.internalDate) : null;
+                    if (receivedAt && receivedAt.getTime() < notBefore) {
+                        continue;
+                    }
+
+                    const tokenUrl = await extractTokenLink(message.source);
+                    if (tokenUrl) {
+                        console.log('✅ Correo de la DIAN encontrado (UID:', uid, ')');
+                        return {
+                            tokenUrl,
+                            receivedAt: (receivedAt ?? new Date()).toISOString(),
+                        };
+                    }
+                }
+            } finally {
+                lock.release();
+            }
+
+            console.log('⏳ Correo de la DIAN aún no disponible, reintentando...');
+            await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+        }
+    } finally {
+        await client.logout().catch(err => console.warn('⚠️ Error cerrando la conexión IMAP:', err));
+    }
+
+    throw new Error(`No se recibió el correo de la DIAN en ${Math.round(timeoutMs / 1000)}s`);
+}
+
+/**
+ * Busca el enlace de acceso en el HTML o el texto del correo
+ */
+async function extractTokenLink(source: Buffer): Promise<string | null> {
+    const parsed = await simpleParser(source);
+    const candidates = [
+        typeof parsed.html === 'string' ? parsed.html : '',
+        parsed.text ?? '',
+    ];
+
+    for (const content of candidates) {
+        const match = content.match(TOKEN_LINK_PATTERN);
+        if (match) {
+            return match[0].replace(/&amp;/g, '&');
+        }
+    }
+
+    return null;
+}
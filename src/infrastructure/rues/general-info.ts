@@ -0,0 +1,165 @@
+import type { RuesInformacionGeneral } from '../../domain/rues/interfaces';
+
+/**
+ * Etiquetas de la pestaña "Información general" (claves en snake_case, sin tildes) y el campo
+ * que alimentan. Las claves vienen del DOM ("fecha_de_matricula") o de la API ("fec_matricula").
+ * El orden importa: los códigos DANE deben evaluarse antes que los nombres.
+ * Los datos de notificación judicial se ignoran; se usan los comerciales.
+ */
+const FIELD_PATTERNS: Array<{ field: keyof RuesInformacionGeneral; pattern: RegExp }> = [
+    { field: 'fecha_matricula', pattern: /^fec(ha)?_(de_)?matricula/ },
+    { field: 'fecha_renovacion', pattern: /^fec(ha)?_(de_)?(ultima_)?renovacion/ },
+    { field: 'ultimo_ano_renovado', pattern: /ultimo_ano(_renovado)?|ano_(de_)?renovacion|ano_renovado/ },
+    { field: 'fecha_vigencia', pattern: /^(fec(ha)?_(de_)?)?vigencia/ },
+    { field: 'tipo_sociedad', pattern: /^tipo_(de_)?sociedad/ },
+    { field: 'organizacion_juridica', pattern: /organizacion_juridica/ },
+    { field: 'codigo_dane_municipio', pattern: /(cod(igo)?|dane)_.*mun|mun.*_(cod(igo)?|dane)/ },
+    { field: 'codigo_dane_departamento', pattern: /(cod(igo)?|dane)_.*(dep|dpto)|(dep|dpto).*_(cod(igo)?|dane)/ },
+    { field: 'municipio', pattern: /mun(icipio)?(_|$)/ },
+    { field: 'departamento', pattern: /^(departamento|dpto)/ },
+    { field: 'direccion', pattern: /^dir(eccion)?(_|$)/ },
+];
+
+const MONTHS: Record<string, number> = {
+    enero: 1, febrero: 2, marzo: 3, abril: 4, mayo: 5, junio: 6, julio: 7,
+    agosto: 8, septiembre: 9, setiembre: 9, octubre: 10, noviembre: 11, diciembre: 12,
+};
+
+/**
+ * Convierte el mapa crudo de "Información general" en campos tipados.
+ * Las fechas quedan en ISO (YYYY-MM-DD) y el municipio se separa de su código DANE
+ * y del departamento cuando RUES los muestra juntos ("11001 - BOGOTA / BOGOTA D.C.").
+ */
+export function parseGeneralInfo(raw: Record<string, string>): RuesInformacionGeneral {
+    const values: Partial<Record<keyof RuesInformacionGeneral, string>> = {};
+
+    Object.entries(raw).forEach(([key, value]) => {
+        const text = String(value ?? '').trim();
+        if (!text || key.includes('notificacion')) {
+            return;
+        }
+
+        const match = FIELD_PATTERNS.find(({ pattern }) => pattern.test(key));
+        if (match && values[match.field] === undefined) {
+            values[match.field] = text;
+        }
+    });
+
+    const info: RuesInformacionGeneral = {
+        fecha_matricula: parseSpanishDate(values.fecha_matricula),
+        fecha_renovacion: parseSpanishDate(values.fecha_renovacion),
+        ultimo_ano_renovado: parseYear(values.ultimo_ano_renovado),
+        tipo_sociedad: values.tipo_sociedad,
+        organizacion_juridica: values.organizacion_juridica,
+        direccion: values.direccion,
+    };
+
+    if (values.fecha_vigencia && /indefinid/i.test(values.fecha_vigencia)) {
+        info.vigencia_indefinida = true;
+    } else if (values.fecha_vigencia) {
+        info.fecha_vigencia = parseSpanishDate(values.fecha_vigencia);
+        info.vigencia_indefinida = info.fecha_vigencia ? false : undefined;
+    }
+
+    Object.assign(info, parseLocation(values));
+
+    // Sin año renovado explícito se toma el de la fecha de renovación
+    if (info.ultimo_ano_renovado === undefined && info.fecha_renovacion) {
+        info.ultimo_ano_renovado = Number(info.fecha_renovacion.substring(0, 4));
+    }
+
+    // Quitar campos vacíos para no devolver claves con undefined
+    (Object.keys(info) as Array<keyof RuesInformacionGeneral>).forEach(field => {
+        if (info[field] === undefined) {
+            delete info[field];
+        }
+    });
+
+    return info;
+}
+
+/**
+ * Convierte fechas de RUES a ISO: "20 de mayo de 2015", "2015/05/20", "20/05/2015", "20150520".
+ * Devuelve undefined si el texto no es una fecha válida.
+ */
+export function parseSpanishDate(text?: string): string | undefined {
+    if (!text) {
+        return undefined;
+    }
+
+    const normalized = text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim();
+    let parts: [number, number, number] | null = null;
+    let match: RegExpMatchArray | null;
+
+    if ((match = normalized.match(/(\d{1,2})\s+de\s+([a-z]+)\s+(?:de|del)\s+(\d{4})/)) && MONTHS[match[2]]) {
+        parts = [Number(match[3]), MONTHS[match[2]], Number(match[1])];
+    } else if ((match = normalized.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/))) {
+        parts = [Number(match[1]), Number(match[2]), Number(match[3])];
+    } else if ((match = normalized.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})/))) {
+        parts = [Number(match[3]), Number(match[2]), Number(match[1])];
+    } else if ((match = normalized.match(/^(\d{4})(\d{2})(\d{2})$/))) {
+        parts = [Number(match[1]), Number(match[2]), Number(match[3])];
+    }
+
+    if (!parts) {
+        return undefined;
+    }
+
+    const [year, month, day] = parts;
+    const date = new Date(Date.UTC(year, month - 1, day));
+
+    // Descarta fechas imposibles (31/02) que Date desplaza al mes siguiente
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return undefined;
+    }
+
+    return date.toISOString().substring(0, 10);
+}
+
+function parseYear(text?: string): number | undefined {
+    const match = text?.match(/\b(19|20)\d{2}\b/);
+    return match ? Number(match[0]) : undefined;
+}
+
+/**
+ * Separa municipio, departamento y códigos DANE.
+ * El código del departamento son los dos primeros dígitos del código del municipio.
+ */
+function parseLocation(values: Partial<Record<keyof RuesInformacionGeneral, string>>): Partial<RuesInformacionGeneral> {
+    let municipio = values.municipio;
+    let departamento = values.departamento;
+    let codigoMunicipio = values.codigo_dane_municipio?.replace(/\D/g, '') || undefined;
+    let codigoDepartamento = values.codigo_dane_departamento?.replace(/\D/g, '') || undefined;
+
+    const withCode = municipio?.match(/^(\d{5})\s*[-–]?\s*(.+)$/);
+    if (withCode) {
+        codigoMunicipio = codigoMunicipio ?? withCode[1];
+        municipio = withCode[2];
+    }
+
+    // "MEDELLIN / ANTIOQUIA" o "MEDELLIN - ANTIOQUIA"
+    const withDepartment = municipio?.match(/^(.+?)\s+[/–-]\s+(.+)$/);
+    if (withDepartment) {
+        municipio = withDepartment[1];
+        departamento = departamento ?? withDepartment[2];
+    }
+
+    // La API puede enviar el código como número y perder el cero inicial (5001 = Medellín)
+    if (codigoMunicipio?.length === 4) {
+        codigoMunicipio = codigoMunicipio.padStart(5, '0');
+    }
+    if (codigoDepartamento?.length === 1) {
+        codigoDepartamento = codigoDepartamento.padStart(2, '0');
+    }
+
+    if (codigoMunicipio && codigoMunicipio.length === 5 && !codigoDepartamento) {
+        codigoDepartamento = codigoMunicipio.substring(0, 2);
+    }
+
+    return {
+        municipio: municipio?.trim(),
+        departamento: departamento?.trim(),
+        codigo_dane_municipio: codigoMunicipio,
+        codigo_dane_departamento: codigoDepartamento,
+    };
+}
@@ -0,0 +1,116 @@
+import type { RuesRepresentante } from '../../domain/rues/interfaces';
+
+// Documento de identidad en el texto del representante: "C.C. No. 1.010.168.874", "C.E. 654321",
+// "PASAPORTE AB123456". El número va pegado a la etiqueta del tipo, tiene al menos un dígito y no
+// lleva espacios, para no absorber fechas o números que siguen en la misma línea
+const DOCUMENT_PATTERN = /\b(C\.?\s?C|C\.?\s?E|NIT|T\.?\s?I|P\.?\s?P|PA(?:SAPORTE)?)\.?(?![A-Z])\s*(?:(?:No|Nro|N[uú]mero)\.?|N[°º])?\s*:?\s*(?=[A-Z0-9.\-]{4})(?=[A-Z.\-]*\d)([A-Z0-9](?:[A-Z0-9]|[.\-](?=[A-Z0-9]))*)/i;
+
+// Cargos conocidos, de más específico a más general, también en plural como en los encabezados
+// ("REPRESENTANTES LEGALES SUPLENTES")
+const ROLE_TEXT = 'suplentes? del (?:gerente|representante legal)|representantes? legal(?:es)?(?: principal(?:es)?| suplentes?)?|(?:primer|segundo) suplente|suplentes?|gerentes?(?: general(?:es)?| suplentes?)?|subgerentes?|presidentes?';
+
+// Cargos y etiquetas que se retiran del nombre cuando vienen en la misma línea
+const ROLE_PATTERN = new RegExp(`\\b(${ROLE_TEXT}|principal(?:es)?|cargos?|nombres?|identificaci(?:[oó]n|ones))\\b:?`, 'gi');
+
+// Texto del nombramiento: "Por Acta No. 1 del 10/01/2020 ... inscrito el ..."
+const APPOINTMENT_PATTERN = /\b(por (acta|documento|escritura|resoluci[oó]n)|nombrad[oa]|designad[oa]|inscrit[oa])\b/i;
+
+/**
+ * Interpreta el texto de la pestaña "Representante legal".
+ * Cada representante se reconoce por su documento; el cargo se toma de la misma línea,
+ * de la anterior o del último encabezado (p. ej. "REPRESENTANTES LEGALES SUPLENTES").
+ */
+export function parseRepresentatives(text: string): RuesRepresentante[] {
+    const lines = text.split(/\n+/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+    const representatives: RuesRepresentante[] = [];
+    let sectionRole: string | undefined;
+
+    lines.forEach((line, index) => {
+        const documentMatch = line.match(DOCUMENT_PATTERN);
+
+        if (!documentMatch) {
+            const last = representatives[representatives.length - 1];
+            if (last && APPOINTMENT_PATTERN.test(line) && !last.nombramiento) {
+                last.nombramiento = line;
+            } else if (isRoleHeader(line) && findRoleText(line)) {
+                sectionRole = line;
+            }
+            return;
+        }
+
+        const beforeDocument = line.slice(0, documentMatch.index).trim();
+        const previousLine = index > 0 ? lines[index - 1] : '';
+        const previousIsRepresentative = index > 0 && DOCUMENT_PATTERN.test(previousLine);
+
+        let nombre = cleanRepresentativeName(beforeDocument);
+        if (!nombre && previousLine && !previousIsRepresentative && !isRoleHeader(previousLine)) {
+            nombre = cleanRepresentativeName(previousLine);
+        }
+
+        if (!nombre) {
+            return;
+        }
+
+        const afterDocument = line.slice((documentMatch.index ?? 0) + documentMatch[0].length).trim();
+        const cargo = findRoleText(beforeDocument)
+            ?? findRoleText(afterDocument)
+            ?? (!previousIsRepresentative ? findRoleText(previousLine) : undefined)
+            ?? sectionRole;
+
+        representatives.push({
+            rol: toRepresentativeRole(cargo),
+            cargo,
+            nombre,
+            tipo_documento: normalizeDocumentType(documentMatch[1]),
+            numero_documento: normalizeDocumentNumber(documentMatch[2]),
+            nombramiento: APPOINTMENT_PATTERN.test(afterDocument) ? afterDocument : undefined,
+        });
+    });
+
+    return representatives;
+}
+
+/**
+ * Encabezados de sección ("REPRESENTANTES LEGALES SUPLENTES", "CARGO NOMBRE IDENTIFICACIÓN"):
+ * solo traen cargos o etiquetas y no se toman como nombre
+ */
+function isRoleHeader(line: string): boolean {
+    return line.length <= 80 && cleanRepresentativeName(line) === '';
+}
+
+function cleanRepresentativeName(text: string): string {
+    return text
+        .replace(ROLE_PATTERN, ' ')
+        .replace(/[-:,|]+/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+function findRoleText(text: string): string | undefined {
+    const match = text.match(new RegExp(ROLE_TEXT, 'i'));
+    return match ? match[0].toUpperCase() : undefined;
+}
+
+function toRepresentativeRole(cargo?: string): RuesRepresentante['rol'] {
+    const normalized = (cargo || '').toLowerCase();
+    if (normalized.includes('suplente')) return 'suplente';
+    if (normalized.includes('gerente')) return 'gerente';
+    return 'principal';
+}
+
+function normalizeDocumentType(value: string): string {
+    const compact = value.toUpperCase().replace(/[^A-Z]/g, '');
+    if (compact === 'PASAPORTE') return 'PA';
+    if (compact === 'PP') return 'PA';
+    return compact;
+}
+
+/**
+ * Quita los puntos de miles y el DV de un número ("900.123.456-8" → "900123456");
+ * los documentos con letras quedan en mayúscula y sin guiones
+ */
+function normalizeDocumentNumber(value: string): string {
+    const compact = value.toUpperCase().replace(/\./g, '');
+    const withCheckDigit = compact.match(/^(\d+)-\d$/);
+    return withCheckDigit ? withCheckDigit[1] : compact.replace(/-/g, '');
+}
@@ -0,0 +1,250 @@
+import type { Page, Response } from 'playwright-core';
+import type { RuesData } from '../../domain/rues/interfaces';
+
+/**
+ * Rutas de la API JSON que consume el SPA de rues.org.co.
+ * La búsqueda y el detalle se distinguen por la ruta de la petición.
+ */
+const API_PATTERNS = {
+    host: /ruesapi\.rues\.org\.co|rues\.org\.co\/.*api\//i,
+    search: /busqueda|consulta/i,
+    detail: /detalle|expediente/i
+};
+
+type ApiKind = 'search' | 'detail';
+
+/**
+ * Respuestas capturadas de la API de RUES en una página
+ */
+export interface RuesApiCapture {
+    /** Promesa con el JSON de la próxima búsqueda; null si no llega en `timeoutMs` */
+    nextSearch(timeoutMs: number): Promise<unknown | null>;
+    /** Promesa con el JSON del próximo detalle; null si no llega en `timeoutMs` */
+    nextDetail(timeoutMs: number): Promise<unknown | null>;
+    dispose(): void;
+}
+
+/**
+ * Escucha las respuestas de la página y entrega las de la API de RUES.
+ * Hay que pedir `nextSearch`/`nextDetail` antes de la acción que dispara la petición.
+ */
+export function captureRuesApi(page: Page): RuesApiCapture {
+    const waiters: Record<ApiKind, Array<(json: unknown) => void>> = { search: [], detail: [] };
+
+    const onResponse = async (response: Response) => {
+        const kind = classifyResponse(response);
+        if (!kind || waiters[kind].length === 0) {
+            return;
+        }
+
+        try {
+            const json = await response.json();
+            waiters[kind].splice(0).forEach(resolve => resolve(json));
+        } catch (error) {
+            // Respuesta sin cuerpo JSON (preflight, errores HTML); se ignora
+        }
+    };
+
+    page.on('response', onResponse);
+
+    const next = (kind: ApiKind, timeoutMs: number) => new Promise<unknown | null>(resolve => {
+        const timer = setTimeout(() => {
+            waiters[kind] = waiters[kind].filter(waiter => waiter !== done);
+            resolve(null);
+        }, timeoutMs);
+
+        const done = (json: unknown) => {
+            clearTimeout(timer);
+            resolve(json);
+        };
+
+        waiters[kind].push(done);
+    });
+
+    return {
+        nextSearch: timeoutMs => next('search', timeoutMs),
+        nextDetail: timeoutMs => next('detail', timeoutMs),
+        dispose: () => {
+            page.off('response', onResponse);
+        }
+    };
+}
+
+function classifyResponse(response: Response): ApiKind | null {
+    const url = response.url();
+    const contentType = response.headers()['content-type'] ?? '';
+
+    if (!API_PATTERNS.host.test(url) || !contentType.includes('json') || response.request().method() === 'OPTIONS') {
+        return null;
+    }
+
+    const { pathname } = new URL(url);
+    if (API_PATTERNS.detail.test(pathname)) return 'detail';
+    if (API_PATTERNS.search.test(pathname)) return 'search';
+    return null;
+}
+
+// ============================================
+// MAPEO DEL JSON
+// ============================================
+
+// Campos de la tarjeta y los nombres que usa la API (normalizados sin separadores)
+const CARD_FIELDS: Record<string, string[]> = {
+    nombre: ['razonsocial', 'nombrerazonsocial', 'nombre', 'razon'],
+    identificacion: ['nit', 'numeroidentificacion', 'numidentificacion', 'identificacion'],
+    camara_de_comercio: ['nomcamara', 'nombrecamara', 'camaracomercio', 'camara'],
+    numero_de_matricula: ['matricula', 'numeromatricula', 'nummatricula'],
+    estado: ['estadomatricula', 'descestado', 'estado'],
+    categoria: ['categoriamatricula', 'desccategoria', 'categoria'],
+    numero_de_inscripcion: ['numeroinscripcion', 'inscripcion'],
+};
+
+/**
+ * Convierte la respuesta de búsqueda en tarjetas con las mismas claves que el DOM.
+ * Devuelve null si el JSON no tiene una lista reconocible (se usa el DOM).
+ */
+export function mapSearchResponse(json: unknown): Array<Record<string, string>> | null {
+    const records = findRecords(json, isCardRecord);
+    if (!records) {
+        return null;
+    }
+
+    return records
+        .map(record => pickFields(record, CARD_FIELDS))
+        .filter(card => card.nombre || card.identificacion);
+}
+
+/**
+ * Un registro de búsqueda trae al menos nombre o identificación (descarta listas como `errors`)
+ */
+function isCardRecord(record: Record<string, unknown>): boolean {
+    const card = pickFields(record, CARD_FIELDS);
+    return Boolean(card.nombre || card.identificacion);
+}
+
+/**
+ * Convierte la respuesta de detalle en información general y actividades económicas.
+ * Devuelve null si el JSON no trae un registro reconocible.
+ */
+export function mapDetailResponse(json: unknown): Partial<RuesData> | null {
+    const records = findRecords(json);
+    const record = records?.[0] ?? (isPlainObject(json) ? json : null);
+    if (!record) {
+        return null;
+    }
+
+    const informacionGeneral: Record<string, string> = {};
+    const ciiuCodes: Array<{ ciiu: string; label: string; slot: string }> = [];
+    const ciiuDescriptions = new Map<string, string>();
+
+    Object.entries(record).forEach(([key, value]) => {
+        if (value === null || value === undefined || typeof value === 'object') {
+            return;
+        }
+
+        const text = String(value).trim();
+        const normalizedKey = normalizeApiKey(key);
+
+        if (normalizedKey.includes('ciiu')) {
+            if (normalizedKey.includes('desc')) {
+                if (text) ciiuDescriptions.set(ciiuSlot(key), text);
+            } else if (/^[A-Z]?\d{4}$/.test(text)) {
+                ciiuCodes.push({ ciiu: text, label: key, slot: ciiuSlot(key) });
+            }
+            return;
+        }
+
+        if (text) {
+            informacionGeneral[toSnakeCase(key)] = text;
+        }
+    });
+
+    const card = pickFields(record, CARD_FIELDS);
+
+    return {
+        ...card,
+        informacion_general_raw: informacionGeneral,
+        // Códigos y descripciones vienen en campos paralelos (principal, secundaria, ...); la clave indica el tipo
+        // y une cada código con su descripción aunque falte algún código
+        actividad_economica: ciiuCodes.map(({ ciiu, label, slot }) => ({ ciiu, label, description: ciiuDescriptions.get(slot) ?? '' })),
+    };
+}
+
+/**
+ * Busca la primera lista no vacía de objetos del JSON (registros, data, resultado...)
+ * en la que algún objeto cumpla `isRecord`. Una lista vacía o de otro tipo no cuenta:
+ * sin lista reconocible se devuelve null y la consulta usa el DOM.
+ */
+function findRecords(
+    json: unknown,
+    isRecord: (record: Record<string, unknown>) => boolean = () => true,
+    depth = 0
+): Array<Record<string, unknown>> | null {
+    if (depth > 3) {
+        return null;
+    }
+
+    if (Array.isArray(json)) {
+        return json.length > 0 && json.every(isPlainObject) && json.some(isRecord)
+            ? json as Array<Record<string, unknown>>
+            : null;
+    }
+
+    if (isPlainObject(json)) {
+        for (const value of Object.values(json)) {
+            const records = findRecords(value, isRecord, depth + 1);
+            if (records) {
+                return records;
+            }
+        }
+    }
+
+    return null;
+}
+
+function pickFields(record: Record<string, unknown>, fields: Record<string, string[]>): Record<string, string> {
+    const byKey = new Map<string, unknown>();
+    Object.entries(record).forEach(([key, value]) => byKey.set(normalizeApiKey(key), value));
+
+    const result: Record<string, string> = {};
+    Object.entries(fields).forEach(([field, aliases]) => {
+        const alias = aliases.find(candidate => {
+            const value = byKey.get(candidate);
+            return value !== null && value !== undefined && String(value).trim() !== '';
+        });
+        if (alias) {
+            result[field] = String(byKey.get(alias)).trim();
+        }
+    });
+
+    return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parte de la clave que identifica la actividad, sin el prefijo de código o descripción:
+ * "cod_ciiu_act_econ_pri" y "desc_ciiu_act_econ_pri" → "act_econ_pri"; "ciiu2" y "descCiiu2" → "2"
+ */
+function ciiuSlot(key: string): string {
+    return toSnakeCase(key)
+        .split('_')
+        .map(token => token.replace(/^(codigo|cod|descripcion|description|desc|ciiu)+/, ''))
+        .filter(Boolean)
+        .join('_');
+}
+
+function normalizeApiKey(key: string): string {
+    return key.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]/g, '');
+}
+
+function toSnakeCase(key: string): string {
+    return key
+        .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+        .toLowerCase()
+        .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_|_$/g, '');
+}
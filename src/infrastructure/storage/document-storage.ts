@@ -0,0 +1,96 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
+import type { DianDocumentStorageTarget } from '../../domain/dian/interfaces';
+
+/**
+ * Configuración de los destinos (variables de entorno):
+ * - DIAN_DOCUMENTS_BUCKET: bucket S3 del destino `s3`; el rol de Lambda solo puede escribir en él
+ * - DIAN_DOCUMENTS_PREFIX: prefijo opcional de las llaves en S3, p. ej. `dian/`
+ * - DIAN_DOCUMENTS_REGION: región opcional del bucket
+ * - DIAN_DOCUMENTS_DIR: directorio del destino `local` (por defecto `output/dian-documents`); no se permite en Lambda
+ */
+const CONFIG = {
+    defaultDirectory: 'output/dian-documents',
+    // Campos de ubicación que el payload no puede fijar
+    payloadLocationFields: ['directory', 'bucket', 'prefix', 'region']
+};
+
+/**
+ * Destino donde se guardan los archivos descargados de la DIAN.
+ * `save` devuelve la ubicación final (ruta local o URI s3://); `fileName` no puede traer rutas.
+ */
+export interface DocumentStorage {
+    save(fileName: string, content: Buffer, contentType: string): Promise<string>;
+}
+
+/**
+ * Crea el almacenamiento según el destino del payload.
+ * Devuelve null para `inline`: el contenido viaja en base64 dentro de la respuesta.
+ */
+export function createDocumentStorage(target?: DianDocumentStorageTarget, env: NodeJS.ProcessEnv = process.env): DocumentStorage | null {
+    if (!target || target.type === 'inline') {
+        return null;
+    }
+
+    const locationFields = CONFIG.payloadLocationFields.filter(field => field in target);
+    if (locationFields.length) {
+        throw new Error(`storage.${locationFields.join(', storage.')} no se acepta en el payload: el destino se configura con DIAN_DOCUMENTS_*`);
+    }
+
+    if (target.type === 'local') {
+        if (env.AWS_LAMBDA_FUNCTION_NAME) {
+            throw new Error('El destino local no está disponible en Lambda; use inline o s3');
+        }
+        return createLocalStorage(env.DIAN_DOCUMENTS_DIR || CONFIG.defaultDirectory);
+    }
+
+    if (target.type === 's3') {
+        if (!env.DIAN_DOCUMENTS_BUCKET) {
+            throw new Error('DIAN_DOCUMENTS_BUCKET es obligatorio para el destino s3');
+        }
+        return createS3Storage(env.DIAN_DOCUMENTS_BUCKET, env.DIAN_DOCUMENTS_PREFIX, env.DIAN_DOCUMENTS_REGION);
+    }
+
+    throw new Error(`Destino de almacenamiento no soportado: ${(target as { type?: string }).type}`);
+}
+
+function createLocalStorage(directory: string): DocumentStorage {
+    return {
+        async save(fileName: string, content: Buffer): Promise<string> {
+            assertPlainFileName(fileName);
+            await fs.mkdir(directory, { recursive: true });
+            const filePath = path.join(directory, fileName);
+            await fs.writeFile(filePath, content);
+            return filePath;
+        }
+    };
+}
+
+function createS3Storage(bucket: string, prefix = '', region?: string): DocumentStorage {
+    const client = new S3Client(region ? { region } : {});
+    const normalizedPrefix = prefix && !prefix.endsWith('/') ? `${prefix}/` : prefix;
+
+    return {
+        async save(fileName: string, content: Buffer, contentType: string): Promise<string> {
+            assertPlainFileName(fileName);
+            const key = `${normalizedPrefix}${fileName}`;
+            await client.send(new PutObjectCommand({
+                Bucket: bucket,
+                Key: key,
+                Body: content,
+                ContentType: contentType
+            }));
+            return `s3://${bucket}/${key}`;
+        }
+    };
+}
+
+/**
+ * Rechaza nombres con separadores o que apunten al directorio actual o superior
+ */
+function assertPlainFileName(fileName: string): void {
+    if (!fileName || /[\\/]/.test(fileName) || fileName === '.' || fileName === '..') {
+        throw new Error(`Nombre de archivo inválido para el destino: "${fileName}"`);
+    }
+}
@@ -0,0 +1,334 @@
+import * as tls from 'tls';
+import * as forge from 'node-forge';
+import { createDianError } from '../../domain/dian/errors';
+import { computeNitCheckDigit } from './identification';
+import type { CertificateInspection, CertificateName } from '../../domain/dian/interfaces';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRIVATE_OID_PREFIX = '1.3.6.1.4.1.';
+
+/**
+ * Contenido de un P12 ya descifrado.
+ * `chain` contiene los certificados emisores ordenados desde el intermedio hasta la raíz.
+ */
+export interface P12Bundle {
+    certificate: forge.pki.Certificate;
+    privateKey: forge.pki.PrivateKey | null;
+    chain: forge.pki.Certificate[];
+}
+
+/**
+ * Material del certificado de cliente para `clientCertificates` de Playwright
+ */
+export interface ClientCertificateMaterial {
+    pfx?: Buffer;
+    passphrase?: string;
+    cert?: Buffer;
+    key?: Buffer;
+}
+
+/**
+ * Errores de node-forge que indican un formato de P12 que no se puede leer
+ */
+const UNSUPPORTED_FORMATS: Array<{ pattern: RegExp; message: string }> = [
+    { pattern: /unsupported oid/i, message: 'El P12 usa un algoritmo de cifrado no soportado (se admiten AES/PBES2, 3DES y RC2 de 40 bits)' },
+    { pattern: /unsupported mac algorithm/i, message: 'El P12 usa un algoritmo de integridad (MAC) no soportado' },
+    { pattern: /version other than 3/i, message: 'Versión de PKCS#12 no soportada (solo versión 3)' },
+    { pattern: /password integrity mode/i, message: 'El P12 usa integridad por llave pública; solo se admite integridad por contraseña' },
+    { pattern: /only x\.509 supported/i, message: 'El P12 contiene certificados que no son X.509' },
+    { pattern: /oid is not rsa|cannot read public key/i, message: 'Solo se admiten certificados con llave RSA' },
+];
+
+/**
+ * Descifra un P12 en base64 y obtiene el certificado, la llave privada y la cadena.
+ * El certificado final es el que corresponde a la llave privada, sin importar el orden de los bags.
+ * Lanza errores con código CERTIFICATE_* para que el llamador pueda fallar rápido.
+ */
+export function loadP12(base64CertificateP12: string, password: string): P12Bundle {
+    if (!base64CertificateP12) {
+        throw createDianError('El certificado P12 es requerido', 'VALIDATION_ERROR');
+    }
+
+    let asn1: forge.asn1.Asn1;
+    try {
+        const der = Buffer.from(base64CertificateP12, 'base64').toString('binary');
+        asn1 = forge.asn1.fromDer(der);
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw createDianError(`El archivo no es un P12 válido: ${errorMessage}`, 'CERTIFICATE_INVALID');
+    }
+
+    let p12: forge.pkcs12.Pkcs12Pfx;
+    try {
+        p12 = forge.pkcs12.pkcs12FromAsn1(asn1, password);
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        if (/mac could not be verified|invalid password|wrong password|failed to decrypt/i.test(errorMessage)) {
+            throw createDianError('La contraseña del certificado es incorrecta', 'CERTIFICATE_PASSWORD_INVALID');
+        }
+
+        const unsupported = UNSUPPORTED_FORMATS.find(({ pattern }) => pattern.test(errorMessage));
+        if (unsupported) {
+            const oid = (error as any)?.oid ? ` (OID ${(error as any).oid})` : '';
+            throw createDianError(`${unsupported.message}${oid}`, 'CERTIFICATE_UNSUPPORTED');
+        }
+
+        throw createDianError(`No se pudo leer el certificado P12: ${errorMessage}`, 'CERTIFICATE_INVALID');
+    }
+
+    const certificates = (p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] ?? [])
+        .map(bag => bag.cert)
+        .filter((cert): cert is forge.pki.Certificate => !!cert);
+
+    if (certificates.length === 0) {
+        throw createDianError('No se encontró un certificado en el archivo P12', 'CERTIFICATE_INVALID');
+    }
+
+    // Las llaves pueden venir cifradas (pkcs8ShroudedKeyBag) o sin cifrar (keyBag)
+    const keyBags = [
+        ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] ?? []),
+        ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] ?? []),
+    ];
+
+    if (keyBags.some(bag => !bag.key)) {
+        throw createDianError('El P12 contiene una llave privada de tipo no soportado (solo RSA)', 'CERTIFICATE_UNSUPPORTED');
+    }
+
+    const keys = keyBags.map(bag => bag.key as forge.pki.rsa.PrivateKey);
+    let certificate: forge.pki.Certificate | undefined;
+    let privateKey: forge.pki.PrivateKey | null = null;
+
+    for (const key of keys) {
+        certificate = certificates.find(cert => publicKeyMatches(cert, key));
+        if (certificate) {
+            privateKey = key;
+            break;
+        }
+    }
+
+    if (!certificate) {
+        if (keys.length > 0) {
+            throw createDianError('La llave privada del P12 no corresponde a ninguno de sus certificados', 'CERTIFICATE_KEY_MISSING');
+        }
+
+        // Sin llave: el certificado final es el que no emite a ningún otro
+        certificate = certificates.find(cert =>
+            !certificates.some(other => other !== cert && other.issuer.hash === cert.subject.hash)
+        ) ?? certificates[0];
+    }
+
+    const leaf = certificate;
+    const others = certificates.filter(cert => cert !== leaf);
+
+    return {
+        certificate: leaf,
+        privateKey,
+        chain: buildChain(leaf, others).certificates.slice(1),
+    };
+}
+
+/**
+ * Prepara el certificado para Playwright.
+ * Si Node (y por tanto Playwright) puede abrir el PFX se usa tal cual; si no
+ * (p. ej. cifrado RC2 que OpenSSL 3 ya no soporta) se convierte a PEM con la cadena.
+ */
+export function buildClientCertificate(base64CertificateP12: string, password: string, bundle: P12Bundle | null): ClientCertificateMaterial {
+    const pfx = Buffer.from(base64CertificateP12, 'base64');
+
+    if (canUsePfxDirectly(pfx, password)) {
+        return { pfx, passphrase: password };
+    }
+
+    if (!bundle || !bundle.privateKey) {
+        throw createDianError('El P12 no se puede usar directamente ni convertir a PEM', 'CERTIFICATE_UNSUPPORTED');
+    }
+
+    const certPem = [bundle.certificate, ...bundle.chain]
+        .map(cert => forge.pki.certificateToPem(cert))
+        .join('');
+
+    return {
+        cert: Buffer.from(certPem),
+        key: Buffer.from(forge.pki.privateKeyToPem(bundle.privateKey)),
+    };
+}
+
+function canUsePfxDirectly(pfx: Buffer, passphrase: string): boolean {
+    try {
+        tls.createSecureContext({ pfx, passphrase });
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+function publicKeyMatches(certificate: forge.pki.Certificate, key: forge.pki.rsa.PrivateKey): boolean {
+    const publicKey = certificate.publicKey as forge.pki.rsa.PublicKey;
+    return !!publicKey?.n && !!key?.n && publicKey.n.equals(key.n) && publicKey.e.equals(key.e);
+}
+
+/**
+ * Obtiene la información relevante del certificado para validarlo antes del login
+ */
+export function inspectP12(bundle: P12Bundle, nitRepresentanteLegal?: string, now: Date = new Date()): CertificateInspection {
+    const { certificate } = bundle;
+    const notBefore = certificate.validity.notBefore;
+    const notAfter = certificate.validity.notAfter;
+    const identifications = extractIdentifications(certificate);
+    const chain = buildChain(certificate, bundle.chain);
+
+    const inspection: CertificateInspection = {
+        subject: describeName(certificate.subject.attributes),
+        issuer: describeName(certificate.issuer.attributes),
+        serialNumber: certificate.serialNumber,
+        identification: identifications[0],
+        identifications,
+        validFrom: notBefore.toISOString(),
+        validTo: notAfter.toISOString(),
+        daysToExpiry: Math.floor((notAfter.getTime() - now.getTime()) / DAY_MS),
+        expired: now.getTime() > notAfter.getTime(),
+        notYetValid: now.getTime() < notBefore.getTime(),
+        keyUsage: readFlags(certificate.getExtension('keyUsage'), [
+            'digitalSignature', 'nonRepudiation', 'keyEncipherment', 'dataEncipherment',
+            'keyAgreement', 'keyCertSign', 'cRLSign', 'encipherOnly', 'decipherOnly'
+        ]),
+        extendedKeyUsage: readFlags(certificate.getExtension('extKeyUsage'), [
+            'serverAuth', 'clientAuth', 'codeSigning', 'emailProtection', 'timeStamping'
+        ]),
+        hasPrivateKey: !!bundle.privateKey,
+        chain: {
+            length: chain.certificates.length,
+            complete: chain.complete,
+            certificates: chain.certificates.map(cert => ({
+                subject: describeName(cert.subject.attributes).raw,
+                issuer: describeName(cert.issuer.attributes).raw,
+            })),
+        },
+    };
+
+    if (nitRepresentanteLegal) {
+        inspection.matchesNitRepresentanteLegal = identifications.length > 0
+            ? identifications.some(identification => identificationMatches(identification, nitRepresentanteLegal))
+            : undefined;
+    }
+
+    return inspection;
+}
+
+/**
+ * Devuelve el primer problema que impide usar el certificado para el login, o null si es utilizable.
+ * La diferencia con `nitRepresentanteLegal` no es un problema: el certificado de persona jurídica
+ * identifica a la empresa y no al representante; se informa en `matchesNitRepresentanteLegal`.
+ */
+export function findCertificateIssue(inspection: CertificateInspection): Error | null {
+    if (!inspection.hasPrivateKey) {
+        return createDianError('El archivo P12 no contiene la llave privada del certificado', 'CERTIFICATE_KEY_MISSING');
+    }
+
+    if (inspection.notYetValid) {
+        return createDianError(`El certificado aún no es válido (vigente desde ${inspection.validFrom})`, 'CERTIFICATE_NOT_YET_VALID');
+    }
+
+    if (inspection.expired) {
+        return createDianError(`El certificado venció el ${inspection.validTo}`, 'CERTIFICATE_EXPIRED');
+    }
+
+    return null;
+}
+
+function describeName(attributes: forge.pki.CertificateField[]): CertificateName {
+    const find = (shortName: string): string | undefined => {
+        const attribute = attributes.find(attr => attr.shortName === shortName || attr.name === shortName);
+        return attribute ? String(attribute.value) : undefined;
+    };
+
+    return {
+        commonName: find('CN'),
+        serialNumber: find('serialNumber'),
+        organization: find('O'),
+        organizationalUnit: find('OU'),
+        country: find('C'),
+        email: find('E') ?? find('emailAddress'),
+        raw: attributes
+            .map(attr => `${attr.shortName ?? attr.name ?? attr.type}=${attr.value}`)
+            .join(', '),
+    };
+}
+
+/**
+ * Las CA colombianas ubican la cédula o el NIT en serialNumber o en atributos propios (OID privados).
+ * Otros atributos numéricos (teléfono, dirección) se ignoran.
+ */
+function extractIdentifications(certificate: forge.pki.Certificate): string[] {
+    const values: string[] = [];
+    const attributes = certificate.subject.attributes.filter(attr =>
+        attr.name === 'serialNumber' || String(attr.type ?? '').startsWith(PRIVATE_OID_PREFIX)
+    );
+
+    for (const attribute of attributes) {
+        const value = String(attribute.value ?? '');
+        const match = value.match(/(\d[\d.\s]{4,}\d)(?:\s*-\s*(\d))?/);
+        if (!match) {
+            continue;
+        }
+
+        const digits = match[1].replace(/\D/g, '');
+        const identification = match[2] ? `${digits}-${match[2]}` : digits;
+
+        if (!values.includes(identification)) {
+            values.push(identification);
+        }
+    }
+
+    return values;
+}
+
+function identificationMatches(identification: string, expected: string): boolean {
+    const [number, dv] = identification.split('-');
+    const expectedNumber = String(expected).replace(/[\s.]/g, '').replace(/-\d$/, '');
+
+    // Los documentos con letras (pasaporte) no se comparan con las identificaciones numéricas del certificado
+    if (!/^\d+$/.test(expectedNumber)) {
+        return false;
+    }
+
+    const expectedDv = computeNitCheckDigit(expectedNumber);
+
+    if (number === expectedNumber) {
+        return dv === undefined || dv === expectedDv;
+    }
+
+    // El certificado puede traer el NIT con el dígito de verificación pegado; un dígito distinto es otro número
+    return number === `${expectedNumber}${expectedDv}`;
+}
+
+function readFlags(extension: unknown, names: string[]): string[] {
+    if (!extension) {
+        return [];
+    }
+
+    const values = extension as Record<string, unknown>;
+    return names.filter(name => values[name] === true);
+}
+
+/**
+ * Arma la cadena desde el certificado final siguiendo issuer -> subject.
+ * Es completa si termina en un certificado autofirmado (raíz).
+ */
+function buildChain(leaf: forge.pki.Certificate, others: forge.pki.Certificate[]): { certificates: forge.pki.Certificate[]; complete: boolean } {
+    const certificates: forge.pki.Certificate[] = [leaf];
+    const pending = [...others];
+    let current = leaf;
+
+    while (current.issuer.hash !== current.subject.hash) {
+        const index = pending.findIndex(cert => cert.subject.hash === current.issuer.hash);
+        if (index < 0) {
+            return { certificates, complete: false };
+        }
+
+        current = pending.splice(index, 1)[0];
+        certificates.push(current);
+    }
+
+    return { certificates, complete: true };
+}
@@ -0,0 +1,22 @@
+/**
+ * Contexto mínimo de Lambda que se necesita para conocer el tiempo restante
+ */
+export interface RemainingTimeContext {
+    getRemainingTimeInMillis(): number;
+}
+
+/**
+ * Momento (epoch en ms) en que Lambda corta la invocación; undefined fuera de Lambda (sin límite)
+ */
+export function lambdaDeadline(context?: RemainingTimeContext): number | undefined {
+    return context && typeof context.getRemainingTimeInMillis === 'function'
+        ? Date.now() + context.getRemainingTimeInMillis()
+        : undefined;
+}
+
+/**
+ * Milisegundos que quedan antes del corte; Infinity si no hay deadline
+ */
+export function remainingMs(deadline?: number): number {
+    return deadline === undefined ? Infinity : deadline - Date.now();
+}
@@ -0,0 +1,94 @@
+// Pesos del módulo 11 de la DIAN, aplicados de derecha a izquierda
+const DV_WEIGHTS = [3, 7, 13, 17, 19, 23, 29, 37, 41, 43, 47, 53, 59, 67, 71];
+
+export interface NormalizedNit {
+    nit: string;
+    dv: string;
+}
+
+export interface NormalizedDocument {
+    number: string;
+    /** Solo para documentos numéricos (cédula), que también tienen DV en el RUT */
+    dv?: string;
+}
+
+/**
+ * Calcula el dígito de verificación (DV) de un NIT con el módulo 11 de la DIAN
+ */
+export function computeNitCheckDigit(nit: string): string {
+    const digits = nit.split('').reverse();
+    const sum = digits.reduce((total, digit, index) => total + Number(digit) * DV_WEIGHTS[index], 0);
+    const remainder = sum % 11;
+
+    return String(remainder > 1 ? 11 - remainder : remainder);
+}
+
+/**
+ * Quita puntos, comas y espacios, separa el DV ("900.123.456-8") y lo verifica.
+ * Sin DV explícito se devuelve el calculado; un 10º dígito sin guion no se toma como DV
+ * porque las cédulas también pueden tener 10 dígitos.
+ * Lanza un error con code VALIDATION_ERROR si el valor no es un NIT válido.
+ */
+export function normalizeNit(value: unknown, field = 'nit'): NormalizedNit {
+    const raw = String(value ?? '').trim();
+    const compact = raw.replace(/[\s.,]/g, '');
+    const match = compact.match(/^(\d+)(?:-(\d))?$/);
+
+    if (!match) {
+        throw validationError(`${field} no es un NIT válido: "${raw}". Use solo dígitos y, opcionalmente, "-DV".`);
+    }
+
+    const nit = match[1].replace(/^0+(?=\d)/, '');
+
+    if (nit.length < 5 || nit.length > DV_WEIGHTS.length) {
+        throw validationError(`${field} debe tener entre 5 y ${DV_WEIGHTS.length} dígitos: "${raw}".`);
+    }
+
+    const dv = computeNitCheckDigit(nit);
+
+    if (match[2] !== undefined && match[2] !== dv) {
+        throw validationError(`El dígito de verificación de ${field} no corresponde: ${nit}-${match[2]} (esperado ${nit}-${dv}).`);
+    }
+
+    return { nit, dv };
+}
+
+/**
+ * Normaliza el documento personal de una persona natural (cédula, cédula de extranjería o pasaporte).
+ * A diferencia de normalizeNit acepta letras y conserva los ceros a la izquierda; solo quita
+ * espacios y puntos y, si es numérico, separa y verifica un "-DV" opcional.
+ * Lanza un error con code VALIDATION_ERROR si el valor no es un documento válido.
+ */
+export function normalizeDocumentNumber(value: unknown, field = 'documento'): NormalizedDocument {
+    const raw = String(value ?? '').trim();
+    const compact = raw.replace(/[\s.]/g, '');
+    const numeric = compact.match(/^(\d+)(?:-(\d))?$/);
+
+    if (numeric) {
+        const number = numeric[1];
+
+        if (number.length < 3 || number.length > DV_WEIGHTS.length) {
+            throw validationError(`${field} debe tener entre 3 y ${DV_WEIGHTS.length} dígitos: "${raw}".`);
+        }
+
+        const dv = computeNitCheckDigit(number);
+
+        if (numeric[2] !== undefined && numeric[2] !== dv) {
+            throw validationError(`El dígito de verificación de ${field} no corresponde: ${number}-${numeric[2]} (esperado ${number}-${dv}).`);
+        }
+
+        return { number, dv };
+    }
+
+    if (!/^[A-Za-z0-9]{3,20}$/.test(compact)) {
+        throw validationError(`${field} no es un documento válido: "${raw}". Use entre 3 y 20 letras o dígitos.`);
+    }
+
+    return { number: compact.toUpperCase() };
+}
+
+function validationError(message: string): Error {
+    const error = new Error(message);
+    (error as any).code = 'VALIDATION_ERROR';
+    return error;
+}
@@ -0,0 +1,68 @@
+// Sufijos societarios que no aportan a la comparación de razones sociales
+const LEGAL_SUFFIXES = /\b(s ?a ?s|s ?a|ltda|limitada|e ?u|s ?en ?c ?s?|s ?c ?a|e ?s ?p|sociedad por acciones simplificada|sociedad anonima|y cia|cia|bic|zomac)\b/g;
+
+/**
+ * Normaliza una razón social: minúsculas, sin tildes, sin puntuación ni sufijos societarios
+ */
+export function normalizeCompanyName(name: string): string {
+    return name
+        .toLowerCase()
+        .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+        .replace(/&/g, ' y ')
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .replace(LEGAL_SUFFIXES, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Similitud entre dos razones sociales de 0 a 1.
+ * Combina el coeficiente de Dice sobre bigramas (tolera errores de digitación)
+ * con la proporción de palabras de la búsqueda presentes en el candidato.
+ */
+export function companyNameSimilarity(query: string, candidate: string): number {
+    const a = normalizeCompanyName(query);
+    const b = normalizeCompanyName(candidate);
+
+    if (!a || !b) {
+        return 0;
+    }
+
+    if (a === b) {
+        return 1;
+    }
+
+    const queryWords = a.split(' ');
+    const candidateWords = new Set(b.split(' '));
+    const wordCoverage = queryWords.filter(word => candidateWords.has(word)).length / queryWords.length;
+
+    const score = 0.6 * diceCoefficient(a, b) + 0.4 * wordCoverage;
+    return Math.round(score * 1000) / 1000;
+}
+
+function diceCoefficient(a: string, b: string): number {
+    const bigrams = (text: string): Map<string, number> => {
+        const result = new Map<string, number>();
+        const compact = text.replace(/\s/g, '');
+        for (let i = 0; i < compact.length - 1; i++) {
+            const bigram = compact.substring(i, i + 2);
+            result.set(bigram, (result.get(bigram) ?? 0) + 1);
+        }
+        return result;
+    };
+
+    const bigramsA = bigrams(a);
+    const bigramsB = bigrams(b);
+    let sizeA = 0;
+    let sizeB = 0;
+    let intersection = 0;
+
+    bigramsA.forEach(count => { sizeA += count; });
+    bigramsB.forEach(count => { sizeB += count; });
+    bigramsA.forEach((count, bigram) => {
+        intersection += Math.min(count, bigramsB.get(bigram) ?? 0);
+    });
+
+    return sizeA + sizeB === 0 ? 0 : (2 * intersection) / (sizeA + sizeB);
+}
@@ -0,0 +1,101 @@
+import axios from 'axios';
+import { SQSClient, SendMessageBatchCommand } from '@aws-sdk/client-sqs';
+import type { RuesChangeEvent } from '../../domain/rues/interfaces';
+
+/**
+ * Configuración del destino de los eventos de cambio (variables de entorno):
+ * - RUES_CHANGE_SINK: log (por defecto fuera de Lambda) | sqs | webhook. En Lambda es obligatorio
+ *   para que los eventos no se pierdan en el log por omisión; `log` se puede pedir explícitamente
+ * - RUES_CHANGE_QUEUE_URL: URL de la cola SQS
+ * - RUES_CHANGE_SQS_ENDPOINT: endpoint alterno, p. ej. ElasticMQ o LocalStack
+ * - RUES_CHANGE_WEBHOOK_URL: URL que recibe un POST con `{ events }`
+ * - RUES_CHANGE_WEBHOOK_TOKEN: opcional, se envía como `Authorization: Bearer <token>`
+ */
+const CONFIG = {
+    // Máximo de mensajes por SendMessageBatch
+    sqsBatchSize: 10,
+    webhookTimeout: 15000
+};
+
+export interface ChangeSink {
+    publish(events: RuesChangeEvent[]): Promise<void>;
+}
+
+export function createChangeSink(env: NodeJS.ProcessEnv = process.env): ChangeSink {
+    if (env.AWS_LAMBDA_FUNCTION_NAME && !env.RUES_CHANGE_SINK) {
+        throw new Error('RUES_CHANGE_SINK es obligatorio en Lambda (sqs, webhook o log)');
+    }
+
+    const type = (env.RUES_CHANGE_SINK || 'log').toLowerCase();
+
+    if (type === 'log') {
+        return createLogSink();
+    }
+
+    if (type === 'sqs') {
+        if (!env.RUES_CHANGE_QUEUE_URL) {
+            throw new Error('RUES_CHANGE_QUEUE_URL es obligatorio para el sink sqs');
+        }
+        return createSqsSink(env.RUES_CHANGE_QUEUE_URL, env.RUES_CHANGE_SQS_ENDPOINT);
+    }
+
+    if (type === 'webhook') {
+        if (!env.RUES_CHANGE_WEBHOOK_URL) {
+            throw new Error('RUES_CHANGE_WEBHOOK_URL es obligatorio para el sink webhook');
+        }
+        return createWebhookSink(env.RUES_CHANGE_WEBHOOK_URL, env.RUES_CHANGE_WEBHOOK_TOKEN);
+    }
+
+    throw new Error(`RUES_CHANGE_SINK no soportado: ${type}`);
+}
+
+/**
+ * Solo escribe los eventos en el log (desarrollo local)
+ */
+function createLogSink(): ChangeSink {
+    return {
+        async publish(events) {
+            events.forEach(event => {
+                console.log(`📣 ${event.type} ${event.identificationNumber}:`, JSON.stringify(event.changes));
+            });
+        }
+    };
+}
+
+function createSqsSink(queueUrl: string, endpoint?: string): ChangeSink {
+    const client = new SQSClient(endpoint ? { endpoint } : {});
+
+    return {
+        async publish(events) {
+            for (let start = 0; start < events.length; start += CONFIG.sqsBatchSize) {
+                const batch = events.slice(start, start + CONFIG.sqsBatchSize);
+                const response = await client.send(new SendMessageBatchCommand({
+                    QueueUrl: queueUrl,
+                    Entries: batch.map((event, index) => ({
+                        Id: String(start + index),
+                        MessageBody: JSON.stringify(event),
+                        MessageAttributes: {
+                            type: { DataType: 'String', StringValue: event.type },
+                            identificationNumber: { DataType: 'String', StringValue: event.identificationNumber }
+                        }
+                    }))
+                }));
+
+                if (response.Failed?.length) {
+                    throw new Error(`SQS rechazó ${response.Failed.length} evento(s): ${response.Failed.map(entry => entry.Message).join('; ')}`);
+                }
+            }
+        }
+    };
+}
+
+function createWebhookSink(url: string, token?: string): ChangeSink {
+    return {
+        async publish(events) {
+            await axios.post(url, { events }, {
+                timeout: CONFIG.webhookTimeout,
+                headers: token ? { Authorization: `Bearer ${token}` } : undefined
+            });
+        }
+    };
+}
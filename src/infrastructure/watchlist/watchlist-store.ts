@@ -0,0 +1,203 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+    DynamoDBClient,
+    GetItemCommand,
+    UpdateItemCommand,
+    ScanCommand,
+    ScanCommandOutput
+} from '@aws-sdk/client-dynamodb';
+import type { RuesSnapshot } from '../../domain/rues/interfaces';
+
+/**
+ * Configuración del almacén de la watchlist (variables de entorno):
+ * - RUES_WATCHLIST_STORE: local (por defecto fuera de Lambda) | dynamodb. En Lambda es obligatorio:
+ *   el disco de /var/task es de solo lectura y una lista vacía haría que la vigilancia no revise nada
+ * - RUES_WATCHLIST_DIR: directorio local con `watchlist.json`, `checked.json` y `snapshots/`
+ * - RUES_WATCHLIST_TABLE: tabla DynamoDB con clave de partición `nit` (S); un ítem por NIT vigilado
+ * - RUES_WATCHLIST_ENDPOINT: endpoint alterno, p. ej. http://localhost:8000 para DynamoDB Local
+ */
+const CONFIG = {
+    defaultDirectory: 'output/rues-watchlist'
+};
+
+/**
+ * Lista de NITs vigilados y su último snapshot
+ */
+export interface WatchlistStore {
+    /** NITs vigilados, primero los nunca revisados y luego los de revisión más antigua */
+    listIdentifications(): Promise<string[]>;
+    getSnapshot(identificationNumber: string): Promise<RuesSnapshot | null>;
+    /** Guarda el snapshot y lo cuenta como revisión en `capturedAt` */
+    saveSnapshot(snapshot: RuesSnapshot): Promise<void>;
+    /** Registra una revisión que no reemplaza el snapshot (NOT_FOUND o error) */
+    markChecked(identificationNumber: string, checkedAt: string): Promise<void>;
+}
+
+interface WatchEntry {
+    identificationNumber: string;
+    checkedAt?: string;
+}
+
+export function createWatchlistStore(env: NodeJS.ProcessEnv = process.env): WatchlistStore {
+    if (env.AWS_LAMBDA_FUNCTION_NAME && !env.RUES_WATCHLIST_STORE) {
+        throw new Error('RUES_WATCHLIST_STORE es obligatorio en Lambda (p. ej. dynamodb con RUES_WATCHLIST_TABLE)');
+    }
+
+    const type = (env.RUES_WATCHLIST_STORE || 'local').toLowerCase();
+
+    if (type === 'local') {
+        return createLocalStore(env.RUES_WATCHLIST_DIR || CONFIG.defaultDirectory);
+    }
+
+    if (type === 'dynamodb') {
+        if (!env.RUES_WATCHLIST_TABLE) {
+            throw new Error('RUES_WATCHLIST_TABLE es obligatorio para la watchlist en dynamodb');
+        }
+        return createDynamoStore(env.RUES_WATCHLIST_TABLE, env.RUES_WATCHLIST_ENDPOINT);
+    }
+
+    throw new Error(`RUES_WATCHLIST_STORE no soportado: ${type}`);
+}
+
+/**
+ * Almacén en disco: `watchlist.json` es una lista de NITs y cada snapshot un JSON en `snapshots/`
+ */
+function createLocalStore(directory: string): WatchlistStore {
+    const snapshotPath = (identificationNumber: string) =>
+        path.join(directory, 'snapshots', `${identificationNumber.replace(/[^\w-]/g, '_')}.json`);
+    // Última revisión por NIT: { "900123456": "2025-04-15T11:00:09.000Z" }
+    const checkedPath = path.join(directory, 'checked.json');
+
+    const readChecked = async (): Promise<Record<string, string>> => {
+        const content = await readFileIfExists(checkedPath);
+        return content ? JSON.parse(content) : {};
+    };
+
+    const markChecked = async (identificationNumber: string, checkedAt: string) => {
+        const checked = await readChecked();
+        checked[identificationNumber] = checkedAt;
+        await fs.mkdir(directory, { recursive: true });
+        await fs.writeFile(checkedPath, JSON.stringify(checked, null, 2));
+    };
+
+    return {
+        async listIdentifications() {
+            const content = await readFileIfExists(path.join(directory, 'watchlist.json'));
+            if (!content) {
+                return [];
+            }
+
+            const list = JSON.parse(content);
+            if (!Array.isArray(list)) {
+                throw new Error(`${path.join(directory, 'watchlist.json')} debe contener una lista de NITs`);
+            }
+
+            const checked = await readChecked();
+            return orderByLastCheck(list.map(String).map(identificationNumber => ({
+                identificationNumber,
+                checkedAt: checked[identificationNumber]
+            })));
+        },
+        async getSnapshot(identificationNumber) {
+            const content = await readFileIfExists(snapshotPath(identificationNumber));
+            return content ? JSON.parse(content) as RuesSnapshot : null;
+        },
+        async saveSnapshot(snapshot) {
+            const filePath = snapshotPath(snapshot.identificationNumber);
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            await fs.writeFile(filePath, JSON.stringify(snapshot, null, 2));
+            await markChecked(snapshot.identificationNumber, snapshot.capturedAt);
+        },
+        markChecked
+    };
+}
+
+/**
+ * Ordena la watchlist para que cada ejecución empiece por los NITs que llevan más tiempo sin revisarse.
+ * Así los que quedan SKIPPED por el límite de tiempo son los primeros de la siguiente ejecución.
+ */
+function orderByLastCheck(entries: WatchEntry[]): string[] {
+    return entries
+        .map((entry, index) => ({ ...entry, index }))
+        .sort((a, b) => {
+            if (a.checkedAt === b.checkedAt) return a.index - b.index;
+            if (!a.checkedAt) return -1;
+            if (!b.checkedAt) return 1;
+            return a.checkedAt < b.checkedAt ? -1 : 1;
+        })
+        .map(entry => entry.identificationNumber);
+}
+
+async function readFileIfExists(filePath: string): Promise<string | null> {
+    try {
+        return await fs.readFile(filePath, 'utf8');
+    } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Almacén en DynamoDB: el backend agrega un ítem `{ nit }` por empresa vigilada
+ * y esta lambda guarda el último snapshot en el mismo ítem (`snapshot`, `capturedAt`)
+ * junto con la última revisión (`checkedAt`).
+ */
+function createDynamoStore(table: string, endpoint?: string): WatchlistStore {
+    const client = new DynamoDBClient(endpoint ? { endpoint } : {});
+
+    return {
+        async listIdentifications() {
+            const entries: WatchEntry[] = [];
+            let startKey: ScanCommandOutput['LastEvaluatedKey'];
+
+            do {
+                const page = await client.send(new ScanCommand({
+                    TableName: table,
+                    ProjectionExpression: 'nit, checkedAt, capturedAt',
+                    ExclusiveStartKey: startKey
+                }));
+                page.Items?.forEach(item => {
+                    if (item.nit?.S) {
+                        // Los ítems guardados antes de existir checkedAt se ordenan por su snapshot
+                        entries.push({ identificationNumber: item.nit.S, checkedAt: item.checkedAt?.S ?? item.capturedAt?.S });
+                    }
+                });
+                startKey = page.LastEvaluatedKey;
+            } while (startKey);
+
+            return orderByLastCheck(entries);
+        },
+        async getSnapshot(identificationNumber) {
+            const { Item } = await client.send(new GetItemCommand({
+                TableName: table,
+                Key: { nit: { S: identificationNumber } },
+                ConsistentRead: true
+            }));
+
+            return Item?.snapshot?.S ? JSON.parse(Item.snapshot.S) as RuesSnapshot : null;
+        },
+        async saveSnapshot(snapshot) {
+            await client.send(new UpdateItemCommand({
+                TableName: table,
+                Key: { nit: { S: snapshot.identificationNumber } },
+                UpdateExpression: 'SET #snapshot = :snapshot, capturedAt = :capturedAt, checkedAt = :capturedAt',
+                ExpressionAttributeNames: { '#snapshot': 'snapshot' },
+                ExpressionAttributeValues: {
+                    ':snapshot': { S: JSON.stringify(snapshot) },
+                    ':capturedAt': { S: snapshot.capturedAt }
+                }
+            }));
+        },
+        async markChecked(identificationNumber, checkedAt) {
+            await client.send(new UpdateItemCommand({
+                TableName: table,
+                Key: { nit: { S: identificationNumber } },
+                UpdateExpression: 'SET checkedAt = :checkedAt',
+                ExpressionAttributeValues: { ':checkedAt': { S: checkedAt } }
+            }));
+        }
+    };
+}
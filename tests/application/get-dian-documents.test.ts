@@ -0,0 +1,61 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as certificateSession from '../../src/application/get-dian-cookie-by-certificate';
+import { handle } from '../../src/application/get-dian-documents';
+import type { DianDocumentsPayload } from '../../src/domain/dian/interfaces';
+
+const PAYLOAD: DianDocumentsPayload = {
+    base64CertificateP12: 'MIIB',
+    certificatePassword: 'clave',
+    identificationType: '10910094',
+    nitRepresentanteLegal: '1010168874',
+    startDate: '2025-01-01',
+    endDate: '2025-01-31',
+    direction: 'received'
+};
+
+describe('handle (documentos DIAN)', () => {
+    let openSession: ReturnType<typeof mock.fn>;
+
+    before(() => {
+        openSession = mock.method(certificateSession, 'openCertificateSession', async () => {
+            throw new Error('No debería abrir el navegador');
+        });
+    });
+
+    after(() => {
+        mock.restoreAll();
+    });
+
+    for (const dates of [
+        { startDate: '2024-13-45', endDate: '2025-01-31' },
+        { startDate: '2025-01-01', endDate: '2025-02-30' },
+        { startDate: '2023-02-29', endDate: '2023-03-01' }
+    ]) {
+        it(`rechaza la fecha inexistente ${dates.startDate} / ${dates.endDate}`, async () => {
+            const result = await handle({ ...PAYLOAD, ...dates });
+
+            assert.equal(result.success, false);
+            assert.equal(result.errorCode, 'VALIDATION_ERROR');
+            assert.match(result.error ?? '', /Fecha inexistente/);
+        });
+    }
+
+    it('rechaza un rango con startDate posterior a endDate', async () => {
+        const result = await handle({ ...PAYLOAD, startDate: '2025-02-01', endDate: '2025-01-31' });
+
+        assert.equal(result.errorCode, 'VALIDATION_ERROR');
+        assert.match(result.error ?? '', /posterior/);
+    });
+
+    it('valida antes de abrir la sesión con el certificado', () => {
+        assert.equal(openSession.mock.callCount(), 0);
+    });
+
+    it('acepta el 29 de febrero de un año bisiesto y llega a abrir la sesión', async () => {
+        const result = await handle({ ...PAYLOAD, startDate: '2024-02-29', endDate: '2024-03-01' });
+
+        assert.notEqual(result.errorCode, 'VALIDATION_ERROR');
+        assert.equal(openSession.mock.callCount(), 1);
+    });
+});
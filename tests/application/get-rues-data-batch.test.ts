@@ -0,0 +1,49 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Browser, BrowserContext } from 'playwright-core';
+import * as launcher from '../../src/infrastructure/browser/launcher';
+import * as rues from '../../src/application/get-rues-data';
+import { handle } from '../../src/application/get-rues-data-batch';
+import type { RuesSearch } from '../../src/application/get-rues-data';
+
+describe('handle (consulta RUES por lote)', () => {
+    const queried: string[] = [];
+
+    before(() => {
+        delete process.env.PROXY_SCOPES;
+
+        const context = { close: async () => undefined } as unknown as BrowserContext;
+        mock.method(launcher, 'getBrowserLauncher', () => ({
+            acquire: async () => ({}) as Browser,
+            newContext: async () => context,
+            release: async () => undefined,
+            close: async () => undefined
+        }));
+        mock.method(rues, 'searchInContext', async (_context: BrowserContext, search: RuesSearch) => {
+            queried.push(search.query);
+            return { success: true, nit: search.query, data: { nombre: `EMPRESA ${search.query}` } };
+        });
+    });
+
+    after(() => {
+        mock.restoreAll();
+    });
+
+    it('rechaza una concurrencia mayor que 5 en lugar de recortarla', async () => {
+        await assert.rejects(
+            handle({ identifications: ['900123456'], concurrency: 6 }),
+            (error: any) => error.code === 'VALIDATION_ERROR' && /entre 1 y 5/.test(error.message)
+        );
+        assert.deepEqual(queried, []);
+    });
+
+    it('consulta una sola vez el mismo NIT escrito de formas distintas', async () => {
+        queried.length = 0;
+
+        const result = await handle({ identifications: ['900123456', '900.123.456-8', ' 900123456 ', '860002964'] });
+
+        assert.deepEqual(queried, ['900123456', '860002964']);
+        assert.equal(result.total, 2);
+        assert.deepEqual(result.results.map(item => item.identificationNumber), ['900123456', '860002964']);
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as batch from '../../src/application/get-rues-data-batch';
+import { handle } from '../../src/application/watch-rues-changes';
+import type { RuesBatchPayload } from '../../src/domain/rues/interfaces';
+
+const WATCHLIST = Array.from({ length: 25 }, (_, index) => String(900000001 + index));
+
+describe('handle (vigilancia RUES)', () => {
+    let directory: string;
+    let now = 1_700_000_000_000;
+    const queried: string[][] = [];
+
+    before(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'rues-watchlist-'));
+        await fs.writeFile(path.join(directory, 'watchlist.json'), JSON.stringify(WATCHLIST));
+        process.env.RUES_WATCHLIST_DIR = directory;
+        process.env.RUES_CHANGE_SINK = 'log';
+
+        mock.method(Date, 'now', () => now);
+        // Cada lote consume más tiempo del que la vigilancia necesita para empezar otro
+        mock.method(batch, 'handle', async (payload: RuesBatchPayload) => {
+            queried.push(payload.identifications);
+            now += 200000;
+            return {
+                success: true,
+                total: payload.identifications.length,
+                found: payload.identifications.length,
+                notFound: 0,
+                failed: 0,
+                skipped: 0,
+                results: payload.identifications.map(identificationNumber => ({
+                    identificationNumber,
+                    status: 'FOUND' as const,
+                    data: { nombre: `EMPRESA ${identificationNumber}`, estado: 'ACTIVA' },
+                    durationMs: 1
+                }))
+            };
+        });
+    });
+
+    after(async () => {
+        mock.restoreAll();
+        delete process.env.RUES_WATCHLIST_DIR;
+        delete process.env.RUES_CHANGE_SINK;
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('empieza la siguiente ejecución por los NITs que quedaron sin revisar', async () => {
+        // Tiempo para un solo lote de 10
+        const first = await handle({}, now + 300000);
+        assert.equal(first.success, true);
+        assert.deepEqual(queried[0], WATCHLIST.slice(0, 10));
+        assert.equal(first.skipped, 15);
+
+        const second = await handle({}, now + 300000);
+        assert.equal(second.success, true);
+        assert.deepEqual(queried[1], WATCHLIST.slice(10, 20));
+
+        const third = await handle({}, now + 300000);
+        assert.deepEqual(queried[2], [...WATCHLIST.slice(20), ...WATCHLIST.slice(0, 5)]);
+        assert.equal(third.items.filter(item => item.status === 'SKIPPED').length, 15);
+    });
+});
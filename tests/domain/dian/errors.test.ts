@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyDianError } from '../../../src/domain/dian/errors';
+
+describe('classifyDianError', () => {
+    it('reconoce los estados HTTP 502, 503 y 504 como portal no disponible', () => {
+        assert.equal(classifyDianError('La DIAN respondió 503'), 'PORTAL_UNAVAILABLE');
+        assert.equal(classifyDianError('Error 504 Gateway Time-out'), 'PORTAL_UNAVAILABLE');
+    });
+
+    it('no confunde números que contienen 502, 503 o 504 con un estado HTTP', () => {
+        assert.equal(classifyDianError('El usuario 1050234 no coincide'), 'INVALID_CREDENTIALS');
+        assert.equal(classifyDianError('Radicado 9005031234'), 'UNKNOWN');
+    });
+
+    it('clasifica el rechazo del captcha antes que otros patrones', () => {
+        assert.equal(classifyDianError('Debe completar la verificación humana (captcha)'), 'CAPTCHA_REJECTED');
+    });
+
+    it('clasifica el timeout de Playwright esperando una navegación como portal no disponible', () => {
+        const message = 'page.waitForNavigation: Timeout 30000ms exceeded.\n=========================== logs ===========================\nwaiting for navigation until "load"';
+        assert.equal(classifyDianError(message), 'PORTAL_UNAVAILABLE');
+    });
+
+    it('reconoce la recarga del portal durante el login', () => {
+        assert.equal(classifyDianError('La página de la DIAN se recargó antes de obtener respuesta.'), 'PAGE_RELOADED');
+        assert.equal(classifyDianError('page.evaluate: Execution context was destroyed, most likely because of a navigation'), 'PAGE_RELOADED');
+        assert.equal(classifyDianError('page.goto: Navigation to "https://catalogo-vpfe.dian.gov.co/User/Login" is interrupted by another navigation to "https://catalogo-vpfe.dian.gov.co/User/Login"'), 'PAGE_RELOADED');
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { assessRenewalCompliance } from '../../../src/domain/rues/compliance';
+import type { RuesData } from '../../../src/domain/rues/interfaces';
+
+function company(overrides: Partial<RuesData> = {}): RuesData {
+    return {
+        nombre: 'EMPRESA DEMO S.A.S',
+        tipo_empresa: 'Registro Mercantil',
+        estado: 'ACTIVA',
+        informacion_general: {
+            fecha_matricula: '2015-06-10',
+            ultimo_ano_renovado: 2024
+        },
+        ...overrides
+    };
+}
+
+describe('assessRenewalCompliance', () => {
+    it('acepta la renovación del año anterior hasta el 31 de marzo', () => {
+        const result = assessRenewalCompliance(company(), new Date('2025-03-31T12:00:00-05:00'));
+
+        assert.equal(result.ano_exigido, 2024);
+        assert.equal(result.al_dia, true);
+        assert.equal(result.anos_en_mora, 0);
+        assert.equal(result.fecha_limite_renovacion, '2025-03-31');
+        assert.equal(result.fecha_evaluacion, '2025-03-31');
+    });
+
+    it('exige el año en curso desde el 1 de abril', () => {
+        const result = assessRenewalCompliance(company(), new Date('2025-04-01T08:00:00-05:00'));
+
+        assert.equal(result.ano_exigido, 2025);
+        assert.equal(result.al_dia, false);
+        assert.equal(result.anos_en_mora, 1);
+    });
+
+    it('evalúa en hora de Colombia y no en UTC', () => {
+        // 1 de abril 03:00 UTC sigue siendo 31 de marzo en Bogotá
+        const stillMarch = assessRenewalCompliance(company(), new Date('2025-04-01T03:00:00Z'));
+        assert.equal(stillMarch.fecha_evaluacion, '2025-03-31');
+        assert.equal(stillMarch.al_dia, true);
+
+        // 1 de enero 02:00 UTC sigue siendo 31 de diciembre del año anterior en Bogotá
+        const stillDecember = assessRenewalCompliance(company(), new Date('2026-01-01T02:00:00Z'));
+        assert.equal(stillDecember.fecha_evaluacion, '2025-12-31');
+        assert.equal(stillDecember.ano_exigido, 2025);
+    });
+
+    it('cuenta los años en mora acumulados', () => {
+        const data = company({ informacion_general: { fecha_matricula: '2015-06-10', ultimo_ano_renovado: 2021 } });
+        const result = assessRenewalCompliance(data, new Date('2025-05-15T12:00:00-05:00'));
+
+        assert.equal(result.al_dia, false);
+        assert.equal(result.anos_en_mora, 4);
+    });
+
+    it('usa el año de la matrícula si no aparece el último año renovado', () => {
+        const data = company({ informacion_general: { fecha_matricula: '2025-02-20' } });
+        const result = assessRenewalCompliance(data, new Date('2025-06-01T12:00:00-05:00'));
+
+        assert.equal(result.ultimo_ano_renovado, 2025);
+        assert.equal(result.al_dia, true);
+    });
+
+    it('no da por renovada una matrícula sin año de renovación ni de matrícula', () => {
+        const result = assessRenewalCompliance(company({ informacion_general: {} }), new Date('2025-06-01T12:00:00-05:00'));
+
+        assert.equal(result.ultimo_ano_renovado, undefined);
+        assert.equal(result.al_dia, false);
+        assert.equal(result.anos_en_mora, undefined);
+    });
+
+    it('no evalúa mora en matrículas canceladas', () => {
+        const data = company({ estado: 'CANCELADA', informacion_general: { fecha_matricula: '2010-01-15', ultimo_ano_renovado: 2018 } });
+        const result = assessRenewalCompliance(data, new Date('2025-06-01T12:00:00-05:00'));
+
+        assert.equal(result.estado, 'cancelada');
+        assert.equal(result.obligada_a_renovar, false);
+        assert.equal(result.al_dia, undefined);
+        assert.equal(result.anos_en_mora, undefined);
+    });
+
+    it('no evalúa mora en matrículas en liquidación', () => {
+        const data = company({ estado: 'ACTIVA - EN LIQUIDACIÓN', informacion_general: { ultimo_ano_renovado: 2022 } });
+        const result = assessRenewalCompliance(data, new Date('2025-06-01T12:00:00-05:00'));
+
+        assert.equal(result.estado, 'en_liquidacion');
+        assert.equal(result.obligada_a_renovar, false);
+        assert.equal(result.al_dia, undefined);
+    });
+
+    it('distingue una matrícula inactiva de una activa', () => {
+        const result = assessRenewalCompliance(company({ estado: 'INACTIVA' }), new Date('2025-06-01T12:00:00-05:00'));
+
+        assert.equal(result.estado, 'inactiva');
+        assert.equal(result.obligada_a_renovar, true);
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { registerCaptchaProvider, solveTurnstile } from '../../../src/infrastructure/captcha/registry';
+import { createCaptchaError, getCaptchaErrorCode, CaptchaErrorCode } from '../../../src/domain/captcha/errors';
+
+const TASK = { siteKey: '0x4AAAAAAA', pageUrl: 'https://example.com/login' };
+
+/**
+ * Registra un proveedor falso que siempre falla con el código indicado
+ */
+function failingProvider(name: string, code: CaptchaErrorCode): void {
+    registerCaptchaProvider(name, {
+        apiKeyEnv: [`${name.toUpperCase()}_KEY`],
+        costPer1000Usd: 1,
+        create: () => ({
+            name,
+            solveTurnstile: async () => {
+                throw createCaptchaError(`${name} falló`, code, name);
+            },
+            getBalance: async () => 0
+        })
+    });
+}
+
+function env(providers: string[]): NodeJS.ProcessEnv {
+    return {
+        CAPTCHA_PROVIDERS: providers.join(','),
+        ...Object.fromEntries(providers.map(name => [`${name.toUpperCase()}_KEY`, 'key']))
+    };
+}
+
+async function solveError(testEnv: NodeJS.ProcessEnv): Promise<CaptchaErrorCode | undefined> {
+    try {
+        await solveTurnstile(TASK, testEnv);
+        return undefined;
+    } catch (error: unknown) {
+        return getCaptchaErrorCode(error);
+    }
+}
+
+failingProvider('fake-auth', 'CAPTCHA_AUTH');
+failingProvider('fake-balance', 'CAPTCHA_NO_BALANCE');
+failingProvider('fake-timeout', 'CAPTCHA_TIMEOUT');
+
+describe('solveTurnstile', () => {
+    it('propaga el código de cuenta si todos los proveedores fallan por la cuenta', async () => {
+        assert.equal(await solveError(env(['fake-auth'])), 'CAPTCHA_AUTH');
+        assert.equal(await solveError(env(['fake-balance', 'fake-auth'])), 'CAPTCHA_NO_BALANCE');
+    });
+
+    it('responde CAPTCHA_UNSOLVED si algún proveedor falló por el captcha', async () => {
+        assert.equal(await solveError(env(['fake-auth', 'fake-timeout'])), 'CAPTCHA_UNSOLVED');
+    });
+
+    it('responde CAPTCHA_CONFIG si ningún proveedor tiene API key', async () => {
+        assert.equal(await solveError({ CAPTCHA_PROVIDERS: 'fake-auth' }), 'CAPTCHA_CONFIG');
+    });
+});
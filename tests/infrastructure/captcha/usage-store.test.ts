@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCaptchaUsageStore, usagePeriods } from '../../../src/infrastructure/captcha/usage-store';
+
+const LAMBDA_ENV = { AWS_LAMBDA_FUNCTION_NAME: 'ax1-services-dian-auth-dev', CAPTCHA_BUDGET_DAILY_USD: '5' };
+
+describe('createCaptchaUsageStore', () => {
+    it('exige dynamodb en Lambda cuando hay presupuesto', () => {
+        assert.throws(() => createCaptchaUsageStore(LAMBDA_ENV), /CAPTCHA_USAGE_STORE=dynamodb/);
+        assert.throws(() => createCaptchaUsageStore({ ...LAMBDA_ENV, CAPTCHA_USAGE_STORE: 'memory' }), /CAPTCHA_USAGE_STORE=dynamodb/);
+        assert.ok(createCaptchaUsageStore({ ...LAMBDA_ENV, CAPTCHA_USAGE_STORE: 'dynamodb', CAPTCHA_USAGE_TABLE: 'captcha-usage' }));
+    });
+
+    it('permite el acumulado en memoria fuera de Lambda o sin presupuesto', () => {
+        assert.ok(createCaptchaUsageStore({ CAPTCHA_BUDGET_DAILY_USD: '5' }));
+        assert.ok(createCaptchaUsageStore({ AWS_LAMBDA_FUNCTION_NAME: 'ax1-services-dian-auth-dev' }));
+    });
+});
+
+describe('usagePeriods', () => {
+    it('usa el día de Colombia', () => {
+        assert.deepEqual(usagePeriods(new Date('2025-04-01T03:00:00Z')), { day: '2025-03-31', month: '2025-03' });
+    });
+});
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { enrichEconomicActivities, isValidCiiu, lookupCiiu } from '../../../src/infrastructure/ciiu/ciiu';
+
+describe('lookupCiiu', () => {
+    it('reconoce una clase del catálogo con sección, división y grupo', () => {
+        const result = lookupCiiu('G4711');
+
+        assert.equal(result?.clase, '4711');
+        assert.equal(result?.seccion.codigo, 'G');
+        assert.equal(result?.division.codigo, '47');
+        assert.equal(result?.grupo.codigo, '471');
+    });
+
+    it('rechaza códigos cuyo grupo existe pero que no son una clase', () => {
+        assert.equal(isValidCiiu('4712'), false);
+        assert.equal(isValidCiiu('6203'), false);
+        assert.equal(isValidCiiu('6201'), true);
+    });
+});
+
+describe('enrichEconomicActivities', () => {
+    it('toma el tipo de la etiqueta en lugar de la posición', () => {
+        const activities = enrichEconomicActivities([
+            { ciiu: 'Actividad secundaria 4711', description: 'COMERCIO' },
+            { ciiu: 'Actividad principal 6201', description: 'DESARROLLO DE SOFTWARE' },
+            { ciiu: '7020', description: 'CONSULTORIA', label: 'cod_ciiu_act_econ_pri' },
+        ]);
+
+        assert.deepEqual(activities?.map(({ ciiu, tipo }) => [ciiu, tipo]), [
+            ['4711', 'secundaria'],
+            ['6201', 'principal'],
+            ['7020', 'principal'],
+        ]);
+    });
+
+    it('usa la posición si la etiqueta no indica el tipo', () => {
+        const activities = enrichEconomicActivities([
+            { ciiu: '6201', description: 'DESARROLLO DE SOFTWARE' },
+            { ciiu: '4712', description: 'CODIGO INEXISTENTE' },
+            { ciiu: '7020', description: 'CONSULTORIA' },
+        ]);
+
+        assert.deepEqual(activities?.map(({ tipo, valido }) => [tipo, valido]), [
+            ['principal', true],
+            ['secundaria', false],
+            ['otra', true],
+        ]);
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import hoodiecrow from 'hoodiecrow-imap';
+import { waitForDianTokenEmail } from '../../../src/infrastructure/mail/dian-token-mailbox';
+import type { DianMailboxConfig } from '../../../src/domain/dian/interfaces';
+
+function dianEmail(token: string): string {
+    return [
+        'From: DIAN <no-reply@dian.gov.co>',
+        'To: facturacion@empresa.co',
+        'Subject: Token de acceso',
+        'Content-Type: text/html; charset=utf-8',
+        '',
+        `<a href="https://catalogo-vpfe.dian.gov.co/User/AuthToken?pk=10910094|900123456&amp;rk=900123456&amp;token=${token}">Ingresar</a>`,
+        ''
+    ].join('\r\n');
+}
+
+describe('waitForDianTokenEmail', () => {
+    let server: ReturnType<typeof hoodiecrow>;
+    let config: DianMailboxConfig;
+
+    before(async () => {
+        // El servidor guarda la fecha interna en hora de Colombia, como los buzones de los clientes
+        process.env.TZ = 'America/Bogota';
+
+        server = hoodiecrow({
+            plugins: ['ID', 'ENABLE', 'UNSELECT', 'SPECIAL-USE', 'LITERALPLUS', 'SASL-IR', 'UIDPLUS'],
+            users: { facturacion: { password: 'secreto' } },
+            storage: {
+                INBOX: {
+                    messages: [
+                        // Correo de una solicitud anterior: queda fuera por la fecha interna
+                        { raw: dianEmail('anterior'), internaldate: new Date('2025-04-14T20:00:00-05:00') },
+                        // 23:30 del 14 de abril en Colombia, 04:30 del 15 en UTC
+                        { raw: dianEmail('nuevo'), internaldate: new Date('2025-04-14T23:30:00-05:00') }
+                    ]
+                }
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+        config = {
+            host: '127.0.0.1',
+            port: (server.server.address() as AddressInfo).port,
+            secure: false,
+            user: 'facturacion',
+            password: 'secreto',
+            timeoutMs: 3000,
+            pollIntervalMs: 200
+        };
+    });
+
+    after(async () => {
+        await new Promise<void>(resolve => server.close(resolve));
+    });
+
+    it('encuentra el correo aunque en Colombia sea el día anterior al de UTC', async () => {
+        const email = await waitForDianTokenEmail(config, new Date('2025-04-15T04:29:00Z'));
+
+        assert.match(email.tokenUrl, /token=nuevo$/);
+        assert.match(email.tokenUrl, /&rk=900123456&/);
+        assert.equal(email.receivedAt, '2025-04-15T04:30:00.000Z');
+    });
+
+    it('no toma correos recibidos antes de la solicitud', async () => {
+        await assert.rejects(
+            waitForDianTokenEmail({ ...config, timeoutMs: 1000 }, new Date('2025-04-15T05:00:00Z')),
+            /No se recibió el correo de la DIAN/
+        );
+    });
+});
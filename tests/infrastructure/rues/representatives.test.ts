@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRepresentatives } from '../../../src/infrastructure/rues/representatives';
+
+describe('parseRepresentatives', () => {
+    it('lee nombre, cargo, documento y nombramiento de una fila de RUES', () => {
+        const text = [
+            'REPRESENTANTE LEGAL',
+            'JUAN CARLOS PEREZ GOMEZ C.C. No. 1.010.168.874',
+            'Por Acta No. 12 del 10/01/2020 de Asamblea de Accionistas, inscrito el 15/01/2020'
+        ].join('\n');
+
+        assert.deepEqual(parseRepresentatives(text), [{
+            rol: 'principal',
+            cargo: 'REPRESENTANTE LEGAL',
+            nombre: 'JUAN CARLOS PEREZ GOMEZ',
+            tipo_documento: 'CC',
+            numero_documento: '1010168874',
+            nombramiento: 'Por Acta No. 12 del 10/01/2020 de Asamblea de Accionistas, inscrito el 15/01/2020'
+        }]);
+    });
+
+    it('no absorbe los números que siguen al documento', () => {
+        const [representative] = parseRepresentatives('GERENTE MARIA LOPEZ CC 79.123.456 12/05/2019 inscrito el 20/05/2019');
+
+        assert.equal(representative.numero_documento, '79123456');
+        assert.equal(representative.rol, 'gerente');
+        assert.equal(representative.nombramiento, '12/05/2019 inscrito el 20/05/2019');
+    });
+
+    it('conserva documentos con letras (pasaporte y cédula de extranjería)', () => {
+        const text = [
+            'REPRESENTANTES LEGALES SUPLENTES',
+            'JOHN SMITH',
+            'PASAPORTE No. AB123456',
+            'ANNA MÜLLER C.E. E-654321'
+        ].join('\n');
+
+        const representatives = parseRepresentatives(text);
+
+        assert.deepEqual(representatives.map(({ nombre, tipo_documento, numero_documento, rol }) => ({ nombre, tipo_documento, numero_documento, rol })), [
+            { nombre: 'JOHN SMITH', tipo_documento: 'PA', numero_documento: 'AB123456', rol: 'suplente' },
+            { nombre: 'ANNA MÜLLER', tipo_documento: 'CE', numero_documento: 'E654321', rol: 'suplente' }
+        ]);
+    });
+
+    it('quita el DV de un NIT', () => {
+        const [representative] = parseRepresentatives('PRESIDENTE INVERSIONES DEMO S.A.S NIT 900.123.456-8');
+
+        assert.equal(representative.tipo_documento, 'NIT');
+        assert.equal(representative.numero_documento, '900123456');
+    });
+
+    it('no toma los encabezados como nombres', () => {
+        const text = [
+            'REPRESENTANTES LEGALES PRINCIPALES',
+            'CARGO NOMBRE IDENTIFICACIÓN',
+            'C.C. 1234567',
+            'GERENTE GENERAL PEDRO RUIZ C.C. 7654321'
+        ].join('\n');
+
+        const representatives = parseRepresentatives(text);
+
+        assert.equal(representatives.length, 1);
+        assert.equal(representatives[0].nombre, 'PEDRO RUIZ');
+        assert.equal(representatives[0].cargo, 'GERENTE GENERAL');
+    });
+
+    it('no confunde nombres con etiquetas de documento', () => {
+        assert.deepEqual(parseRepresentatives('PABLO CEDIEL NITOLA'), []);
+    });
+});
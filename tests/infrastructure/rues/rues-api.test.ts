@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mapDetailResponse } from '../../../src/infrastructure/rues/rues-api';
+
+describe('mapDetailResponse', () => {
+    it('une cada código CIIU con la descripción de su misma clave', () => {
+        const detail = mapDetailResponse({
+            registros: [{
+                razon_social: 'EMPRESA DEMO S.A.S',
+                cod_ciiu_act_econ_pri: '6201',
+                desc_ciiu_act_econ_pri: 'DESARROLLO DE SISTEMAS INFORMATICOS',
+                cod_ciiu_act_econ_sec: '',
+                desc_ciiu_act_econ_sec: '',
+                ciiu3: '4711',
+                desc_ciiu3: 'COMERCIO AL POR MENOR EN ESTABLECIMIENTOS NO ESPECIALIZADOS',
+                ciiu4: '7020',
+                desc_ciiu4: 'ACTIVIDADES DE CONSULTORIA DE GESTION',
+                fecha_matricula: '20150610'
+            }]
+        });
+
+        assert.deepEqual(detail?.actividad_economica, [
+            { ciiu: '6201', label: 'cod_ciiu_act_econ_pri', description: 'DESARROLLO DE SISTEMAS INFORMATICOS' },
+            { ciiu: '4711', label: 'ciiu3', description: 'COMERCIO AL POR MENOR EN ESTABLECIMIENTOS NO ESPECIALIZADOS' },
+            { ciiu: '7020', label: 'ciiu4', description: 'ACTIVIDADES DE CONSULTORIA DE GESTION' }
+        ]);
+        assert.equal(detail?.informacion_general_raw?.fecha_matricula, '20150610');
+    });
+
+    it('acepta claves en camelCase y descripciones antes que los códigos', () => {
+        const detail = mapDetailResponse({
+            descCiiuActEconSec: 'COMERCIO',
+            codCiiuActEconPri: '6201',
+            codCiiuActEconSec: '4711',
+            descCiiuActEconPri: 'SOFTWARE'
+        });
+
+        assert.deepEqual(detail?.actividad_economica?.map(({ ciiu, description }) => [ciiu, description]), [
+            ['6201', 'SOFTWARE'],
+            ['4711', 'COMERCIO']
+        ]);
+    });
+});
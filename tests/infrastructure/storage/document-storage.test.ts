@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createDocumentStorage } from '../../../src/infrastructure/storage/document-storage';
+import type { DianDocumentStorageTarget } from '../../../src/domain/dian/interfaces';
+
+const LAMBDA_ENV = { AWS_LAMBDA_FUNCTION_NAME: 'ax1-services-download-dian-documents-dev' };
+
+describe('createDocumentStorage', () => {
+    it('no crea almacenamiento para inline', () => {
+        assert.equal(createDocumentStorage({ type: 'inline' }, {}), null);
+        assert.equal(createDocumentStorage(undefined, {}), null);
+    });
+
+    it('rechaza el destino local en Lambda', () => {
+        assert.throws(() => createDocumentStorage({ type: 'local' }, LAMBDA_ENV), /no está disponible en Lambda/);
+        assert.ok(createDocumentStorage({ type: 'local' }, {}));
+    });
+
+    it('toma el bucket de la configuración y no del payload', () => {
+        assert.throws(() => createDocumentStorage({ type: 's3' }, LAMBDA_ENV), /DIAN_DOCUMENTS_BUCKET/);
+        assert.ok(createDocumentStorage({ type: 's3' }, { ...LAMBDA_ENV, DIAN_DOCUMENTS_BUCKET: 'bucket' }));
+
+        const target = { type: 's3', bucket: 'otro-bucket' } as DianDocumentStorageTarget;
+        assert.throws(() => createDocumentStorage(target, { DIAN_DOCUMENTS_BUCKET: 'bucket' }), /storage\.bucket/);
+    });
+
+    it('rechaza un directorio elegido en el payload', () => {
+        const target = { type: 'local', directory: '/var/task' } as DianDocumentStorageTarget;
+        assert.throws(() => createDocumentStorage(target, {}), /storage\.directory/);
+    });
+});
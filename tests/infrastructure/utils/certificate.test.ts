@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as forge from 'node-forge';
+import { inspectP12, findCertificateIssue, P12Bundle } from '../../../src/infrastructure/utils/certificate';
+
+// Una sola llave para todas las pruebas: generarla es lo más lento
+const keys = forge.pki.rsa.generateKeyPair(1024);
+
+/**
+ * Certificado autofirmado con la identificación en serialNumber, como lo emiten las CA colombianas
+ */
+function bundleWithSerialNumber(serialNumber: string): P12Bundle {
+    const certificate = forge.pki.createCertificate();
+    const attributes = [
+        { name: 'commonName', value: 'EMPRESA DEMO S.A.S' },
+        { name: 'serialNumber', value: serialNumber }
+    ];
+
+    certificate.publicKey = keys.publicKey;
+    certificate.serialNumber = '01';
+    certificate.validity.notBefore = new Date('2025-01-01T00:00:00Z');
+    certificate.validity.notAfter = new Date('2027-01-01T00:00:00Z');
+    certificate.setSubject(attributes);
+    certificate.setIssuer(attributes);
+    certificate.sign(keys.privateKey, forge.md.sha256.create());
+
+    return { certificate, privateKey: keys.privateKey, chain: [] };
+}
+
+function matches(serialNumber: string, expected: string): boolean | undefined {
+    return inspectP12(bundleWithSerialNumber(serialNumber), expected, new Date('2026-01-01T00:00:00Z')).matchesNitRepresentanteLegal;
+}
+
+describe('inspectP12 - coincidencia de identificación', () => {
+    it('acepta el mismo número con o sin DV correcto', () => {
+        assert.equal(matches('900123456', '900123456'), true);
+        assert.equal(matches('900123456-8', '900.123.456'), true);
+    });
+
+    it('acepta el DV pegado solo si es el dígito de verificación correcto', () => {
+        assert.equal(matches('9001234568', '900123456'), true);
+        assert.equal(matches('9001234561', '900123456'), false);
+    });
+
+    it('rechaza un DV separado incorrecto', () => {
+        assert.equal(matches('900123456-3', '900123456'), false);
+    });
+
+    it('no compara documentos con letras contra identificaciones numéricas', () => {
+        assert.equal(matches('123456789', 'AB123456789'), false);
+    });
+});
+
+describe('findCertificateIssue', () => {
+    it('no invalida un certificado de empresa revisado contra la cédula del representante', () => {
+        const inspection = inspectP12(bundleWithSerialNumber('900123456'), '1010168874', new Date('2026-01-01T00:00:00Z'));
+
+        assert.equal(inspection.matchesNitRepresentanteLegal, false);
+        assert.equal(findCertificateIssue(inspection), null);
+    });
+
+    it('reporta el vencimiento', () => {
+        const inspection = inspectP12(bundleWithSerialNumber('900123456'), undefined, new Date('2027-06-01T00:00:00Z'));
+
+        assert.equal((findCertificateIssue(inspection) as any)?.code, 'CERTIFICATE_EXPIRED');
+    });
+});
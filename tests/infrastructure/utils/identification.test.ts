@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeNitCheckDigit, normalizeNit, normalizeDocumentNumber } from '../../../src/infrastructure/utils/identification';
+
+function validationErrorCode(action: () => unknown): string | undefined {
+    try {
+        action();
+        return undefined;
+    } catch (error: unknown) {
+        return (error as any).code;
+    }
+}
+
+describe('computeNitCheckDigit', () => {
+    it('calcula el DV de NITs conocidos', () => {
+        assert.equal(computeNitCheckDigit('800197268'), '4');
+        assert.equal(computeNitCheckDigit('900123456'), '8');
+        assert.equal(computeNitCheckDigit('860002964'), '4');
+    });
+});
+
+describe('normalizeNit', () => {
+    it('quita puntos, comas y espacios y devuelve el DV calculado', () => {
+        assert.deepEqual(normalizeNit('900.123.456'), { nit: '900123456', dv: '8' });
+        assert.deepEqual(normalizeNit(' 800,197,268 '), { nit: '800197268', dv: '4' });
+        assert.deepEqual(normalizeNit(900123456), { nit: '900123456', dv: '8' });
+    });
+
+    it('acepta NIT-DV con el DV correcto', () => {
+        assert.deepEqual(normalizeNit('900.123.456-8'), { nit: '900123456', dv: '8' });
+        assert.deepEqual(normalizeNit('800197268-4'), { nit: '800197268', dv: '4' });
+    });
+
+    it('rechaza NIT-DV con un DV incorrecto', () => {
+        assert.equal(validationErrorCode(() => normalizeNit('900123456-3')), 'VALIDATION_ERROR');
+        assert.throws(() => normalizeNit('800197268-5', 'identificationNumber'), /identificationNumber.*800197268-4/);
+    });
+
+    it('no toma un 10º dígito sin guion como DV', () => {
+        assert.deepEqual(normalizeNit('9001234568'), { nit: '9001234568', dv: computeNitCheckDigit('9001234568') });
+        assert.equal(normalizeNit('1010168874').nit, '1010168874');
+    });
+
+    it('rechaza valores no numéricos o fuera de rango', () => {
+        assert.equal(validationErrorCode(() => normalizeNit('ABC123456')), 'VALIDATION_ERROR');
+        assert.equal(validationErrorCode(() => normalizeNit('900123456-X')), 'VALIDATION_ERROR');
+        assert.equal(validationErrorCode(() => normalizeNit('')), 'VALIDATION_ERROR');
+        assert.equal(validationErrorCode(() => normalizeNit(undefined)), 'VALIDATION_ERROR');
+        assert.equal(validationErrorCode(() => normalizeNit('1234')), 'VALIDATION_ERROR');
+    });
+});
+
+describe('normalizeDocumentNumber', () => {
+    it('conserva los ceros a la izquierda de una cédula y verifica el DV opcional', () => {
+        assert.deepEqual(normalizeDocumentNumber('01.010.168'), { number: '01010168', dv: computeNitCheckDigit('01010168') });
+        assert.equal(normalizeDocumentNumber('900123456-8').number, '900123456');
+        assert.equal(validationErrorCode(() => normalizeDocumentNumber('900123456-3')), 'VALIDATION_ERROR');
+    });
+
+    it('acepta pasaportes y cédulas de extranjería con letras, sin DV', () => {
+        assert.deepEqual(normalizeDocumentNumber('ab 123456'), { number: 'AB123456' });
+    });
+
+    it('rechaza documentos con símbolos', () => {
+        assert.equal(validationErrorCode(() => normalizeDocumentNumber('AB-12#34')), 'VALIDATION_ERROR');
+        assert.equal(validationErrorCode(() => normalizeDocumentNumber('12')), 'VALIDATION_ERROR');
+    });
+});
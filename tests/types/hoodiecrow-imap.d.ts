@@ -0,0 +1,27 @@
+// Servidor IMAP en memoria para las pruebas del buzón; el paquete no publica tipos
+declare module 'hoodiecrow-imap' {
+    import type { Server } from 'net';
+
+    interface HoodiecrowMessage {
+        raw: string;
+        internaldate?: Date;
+        flags?: string[];
+    }
+
+    interface HoodiecrowOptions {
+        plugins?: string[];
+        users?: Record<string, { password: string }>;
+        storage?: Record<string, { messages: HoodiecrowMessage[] }>;
+    }
+
+    interface HoodiecrowServer {
+        /** Servidor TCP subyacente */
+        server: Server;
+        listen(port: number, host: string, callback: () => void): void;
+        close(callback: () => void): void;
+    }
+
+    function hoodiecrow(options: HoodiecrowOptions): HoodiecrowServer;
+
+    export = hoodiecrow;
+}